@@ -0,0 +1,182 @@
+/**
+ * Checks combat plans against the engine rules in `types.ts` and repairs plans that break them.
+ */
+import type { CombatAction, CombatRequest } from './types';
+import { MAX_ARMOR_ACTIONS_PER_TURN, MAX_LEVEL, MAX_UPGRADE_ACTIONS_PER_TURN, actionCost } from './types';
+
+export interface PlanContext {
+  resources: number;
+  level: number;
+  /** Players that may be attacked; when omitted any target other than ourselves is accepted. */
+  targetIds?: Set<number>;
+  playerId?: number;
+}
+
+export interface RepairedPlan {
+  actions: CombatAction[];
+  /** Human-readable description of every change; empty when the plan was already valid. */
+  changes: string[];
+}
+
+export function planContextFor(request: CombatRequest): PlanContext {
+  return {
+    resources: Math.max(0, Math.floor(request.playerTower.resources ?? 0)),
+    level: request.playerTower.level,
+    targetIds: new Set(request.enemyTowers.filter((enemy) => enemy.hp > 0).map((enemy) => enemy.playerId)),
+    playerId: request.playerTower.playerId
+  };
+}
+
+function isValidTarget(targetId: number, context: PlanContext): boolean {
+  if (context.targetIds) {
+    return context.targetIds.has(targetId);
+  }
+  return targetId !== context.playerId;
+}
+
+/** Returns why the engine would reject the plan, or undefined when it is legal. */
+export function findPlanViolation(actions: CombatAction[], context: PlanContext): string | undefined {
+  let armorCount = 0;
+  let upgradeCount = 0;
+  let spent = 0;
+  const targets = new Set<number>();
+
+  for (const action of actions) {
+    if (action.type === 'armor') {
+      armorCount += 1;
+      if (!Number.isInteger(action.amount) || action.amount <= 0) {
+        return `invalid armor amount ${action.amount}`;
+      }
+    } else if (action.type === 'upgrade') {
+      upgradeCount += 1;
+      if (context.level >= MAX_LEVEL) {
+        return 'upgrade at max level';
+      }
+    } else if (action.type === 'attack') {
+      if (!Number.isInteger(action.troopCount) || action.troopCount <= 0) {
+        return `invalid troop count ${action.troopCount}`;
+      }
+      if (!isValidTarget(action.targetId, context)) {
+        return `invalid attack target ${action.targetId}`;
+      }
+      if (targets.has(action.targetId)) {
+        return `duplicate attack target ${action.targetId}`;
+      }
+      targets.add(action.targetId);
+    } else {
+      return 'unknown action type';
+    }
+    spent += actionCost(action, context.level);
+  }
+
+  if (armorCount > MAX_ARMOR_ACTIONS_PER_TURN) {
+    return 'too many armor actions';
+  }
+  if (upgradeCount > MAX_UPGRADE_ACTIONS_PER_TURN) {
+    return 'too many upgrade actions';
+  }
+  if (spent > context.resources) {
+    return `spent ${spent} of ${context.resources} resources`;
+  }
+  return undefined;
+}
+
+/**
+ * Turns any plan into one the engine accepts while keeping as much of it as possible:
+ * fractional amounts are rounded down, malformed, duplicate and surplus actions are dropped,
+ * an unaffordable upgrade is dropped, and then attacks (last first) and armor are trimmed
+ * until the plan fits the budget.
+ */
+export function repairPlan(actions: unknown, context: PlanContext): RepairedPlan {
+  const changes: string[] = [];
+  if (!Array.isArray(actions)) {
+    return { actions: [], changes: ['plan is not an array'] };
+  }
+
+  const kept: CombatAction[] = [];
+  const targets = new Set<number>();
+  let armorCount = 0;
+  let upgradeCount = 0;
+
+  for (const raw of actions as CombatAction[]) {
+    if (raw?.type === 'armor') {
+      const amount = Math.floor(Number(raw.amount));
+      if (!(amount > 0)) {
+        changes.push(`dropped armor with amount ${raw.amount}`);
+      } else if (armorCount >= MAX_ARMOR_ACTIONS_PER_TURN) {
+        changes.push(`dropped extra armor ${amount}`);
+      } else {
+        armorCount += 1;
+        if (amount !== Number(raw.amount)) {
+          changes.push(`rounded armor ${raw.amount} down to ${amount}`);
+        }
+        kept.push({ type: 'armor', amount });
+      }
+    } else if (raw?.type === 'upgrade') {
+      if (context.level >= MAX_LEVEL) {
+        changes.push('dropped upgrade at max level');
+      } else if (upgradeCount >= MAX_UPGRADE_ACTIONS_PER_TURN) {
+        changes.push('dropped extra upgrade');
+      } else {
+        upgradeCount += 1;
+        kept.push({ type: 'upgrade' });
+      }
+    } else if (raw?.type === 'attack') {
+      const troopCount = Math.floor(Number(raw.troopCount));
+      if (!(troopCount > 0)) {
+        changes.push(`dropped attack on ${raw.targetId} with ${raw.troopCount} troops`);
+      } else if (!isValidTarget(raw.targetId, context)) {
+        changes.push(`dropped attack on invalid target ${raw.targetId}`);
+      } else if (targets.has(raw.targetId)) {
+        changes.push(`dropped duplicate attack on ${raw.targetId}`);
+      } else {
+        targets.add(raw.targetId);
+        if (troopCount !== Number(raw.troopCount)) {
+          changes.push(`rounded attack on ${raw.targetId} from ${raw.troopCount} down to ${troopCount} troops`);
+        }
+        kept.push({ type: 'attack', targetId: raw.targetId, troopCount });
+      }
+    } else {
+      changes.push(`dropped unknown action ${JSON.stringify(raw)}`);
+    }
+  }
+
+  let overspend = kept.reduce((sum, action) => sum + actionCost(action, context.level), 0) - context.resources;
+
+  const upgradeIndex = kept.findIndex((action) => action.type === 'upgrade');
+  const upgradePrice = actionCost({ type: 'upgrade' }, context.level);
+  if (overspend > 0 && upgradeIndex >= 0 && upgradePrice > context.resources) {
+    kept.splice(upgradeIndex, 1);
+    overspend -= upgradePrice;
+    changes.push(`dropped unaffordable upgrade costing ${upgradePrice}`);
+  }
+
+  const trimOrder = [
+    ...kept.filter((action) => action.type === 'attack').reverse(),
+    ...kept.filter((action) => action.type === 'armor')
+  ];
+  for (const action of trimOrder) {
+    if (overspend <= 0) {
+      break;
+    }
+    if (action.type === 'attack') {
+      const cut = Math.min(action.troopCount, overspend);
+      action.troopCount -= cut;
+      overspend -= cut;
+      changes.push(`trimmed attack on ${action.targetId} by ${cut} troops`);
+    } else if (action.type === 'armor') {
+      const cut = Math.min(action.amount, overspend);
+      action.amount -= cut;
+      overspend -= cut;
+      changes.push(`trimmed armor by ${cut}`);
+    }
+  }
+
+  return {
+    actions: kept.filter(
+      (action) =>
+        (action.type !== 'attack' || action.troopCount > 0) && (action.type !== 'armor' || action.amount > 0)
+    ),
+    changes
+  };
+}
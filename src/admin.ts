@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { isStrategyName, listStrategyNames } from './strategies';
+import type { StrategySelector } from './strategies/selection';
+
+/** Whether a request carries the admin token; always false when no token is configured. */
+export function isAdminRequest(req: Request, adminToken: string | undefined): boolean {
+  return adminToken !== undefined && adminToken !== '' && req.headers.authorization === `Bearer ${adminToken}`;
+}
+
+/**
+ * Admin routes for hot-swapping strategies. Every request must carry
+ * `Authorization: Bearer <ADMIN_TOKEN>`; without a configured token the routes are disabled.
+ */
+export function createAdminRouter(selector: StrategySelector, adminToken: string | undefined): Router {
+  const router = Router();
+
+  router.use((req: Request, res: Response, next: () => void) => {
+    if (!adminToken) {
+      res.status(404).json({ error: 'Admin routes are disabled' });
+      return;
+    }
+    if (!isAdminRequest(req, adminToken)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/strategy', (_req: Request, res: Response) => {
+    res.json({ strategy: selector.getActive(), gameOverrides: selector.getGameOverrides() });
+  });
+
+  router.put('/strategy', (req: Request, res: Response) => {
+    const name = req.body?.strategy;
+    if (typeof name !== 'string' || !isStrategyName(name)) {
+      res.status(400).json({ error: 'Unknown strategy', known: listStrategyNames() });
+      return;
+    }
+    selector.setActive(name);
+    console.log(`[KW-BOT] active strategy switched to ${name}`);
+    res.json({ strategy: name });
+  });
+
+  router.put('/games/:gameId/strategy', (req: Request, res: Response) => {
+    const gameId = Number(req.params.gameId);
+    const name = req.body?.strategy;
+    if (!Number.isInteger(gameId)) {
+      res.status(400).json({ error: 'Invalid gameId' });
+      return;
+    }
+    if (typeof name !== 'string' || !isStrategyName(name)) {
+      res.status(400).json({ error: 'Unknown strategy', known: listStrategyNames() });
+      return;
+    }
+    selector.setGameOverride(gameId, name);
+    console.log(`[KW-BOT] game ${gameId} strategy overridden to ${name}`);
+    res.json({ gameId, strategy: name });
+  });
+
+  router.delete('/games/:gameId/strategy', (req: Request, res: Response) => {
+    const gameId = Number(req.params.gameId);
+    if (!Number.isInteger(gameId)) {
+      res.status(400).json({ error: 'Invalid gameId' });
+      return;
+    }
+    res.json({ gameId, removed: selector.clearGameOverride(gameId) });
+  });
+
+  return router;
+}
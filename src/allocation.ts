@@ -0,0 +1,99 @@
+import type { Tower } from './types';
+import { expectedKillCost } from './memory';
+import type { ResourceEstimate } from './memory';
+
+/** Above this many targets, kill sets are picked greedily instead of by trying every subset. */
+const MAX_EXACT_TARGETS = 10;
+
+export interface TroopAllocation {
+  targetId: number;
+  troops: number;
+  /** Whether the troops cover the target's hp, armor and the armor it usually buys. */
+  kills: boolean;
+}
+
+export interface AllocationOptions {
+  /** Armor each target usually buys this turn, from game memory. */
+  estimates?: Map<number, ResourceEstimate>;
+  /**
+   * Orders targets from most to least wanted: breaks ties between equally large kill sets and
+   * picks who gets the troops left over. Defaults to highest level, then cheapest kill.
+   */
+  preference?: (a: Tower, b: Tower) => number;
+  /** Most attacks to send; defaults to one per target. */
+  maxTargets?: number;
+}
+
+/** Indexes (into `costs`) of the largest set of kills the budget covers, favouring lower indexes on ties. */
+function chooseKills(costs: number[], budget: number, maxKills: number): number[] {
+  if (costs.length > MAX_EXACT_TARGETS) {
+    const cheapestFirst = costs.map((cost, index) => ({ cost, index })).sort((a, b) => a.cost - b.cost || a.index - b.index);
+    const chosen: number[] = [];
+    let spent = 0;
+    for (const { cost, index } of cheapestFirst) {
+      if (chosen.length >= maxKills || spent + cost > budget) {
+        break;
+      }
+      chosen.push(index);
+      spent += cost;
+    }
+    return chosen.sort((a, b) => a - b);
+  }
+
+  let best: number[] = [];
+  let bestRank = -1;
+  for (let mask = 1; mask < 1 << costs.length; mask += 1) {
+    const members = costs.map((_, index) => index).filter((index) => mask & (1 << index));
+    const cost = members.reduce((sum, index) => sum + costs[index], 0);
+    if (members.length > maxKills || cost > budget) {
+      continue;
+    }
+    // Bit order reversed so a set holding a more wanted target outranks one without it.
+    const rank = members.reduce((sum, index) => sum + (1 << (costs.length - 1 - index)), 0);
+    if (members.length > best.length || (members.length === best.length && rank > bestRank)) {
+      best = members;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits an attack budget across unique targets: first the largest set of eliminations the
+ * budget covers once each target's armor (and the armor it usually buys) is absorbed, then
+ * the rest at the most wanted survivor. Troops past a kill are wasted, so nothing overkills
+ * except the leftover once every target is covered, which backs the most wanted kill.
+ */
+export function allocateTroops(budget: number, targets: Tower[], options: AllocationOptions = {}): TroopAllocation[] {
+  const troops = Math.max(0, Math.floor(budget));
+  const maxTargets = options.maxTargets ?? targets.length;
+  const live = targets.filter((target) => target.hp > 0);
+  if (troops <= 0 || maxTargets <= 0 || live.length === 0) {
+    return [];
+  }
+
+  const killCost = (target: Tower) => expectedKillCost(target, options.estimates);
+  const preference =
+    options.preference ?? ((a: Tower, b: Tower) => b.level - a.level || killCost(a) - killCost(b));
+  const ranked = [...live].sort((a, b) => preference(a, b) || a.playerId - b.playerId);
+  const costs = ranked.map(killCost);
+
+  const kills = chooseKills(costs, troops, maxTargets);
+  const allocations: TroopAllocation[] = kills.map((index) => ({
+    targetId: ranked[index].playerId,
+    troops: costs[index],
+    kills: true
+  }));
+  const left = troops - allocations.reduce((sum, allocation) => sum + allocation.troops, 0);
+  if (left <= 0) {
+    return allocations;
+  }
+
+  const survivor = ranked.find((_, index) => !kills.includes(index));
+  if (survivor && allocations.length < maxTargets) {
+    allocations.push({ targetId: survivor.playerId, troops: left, kills: false });
+  } else if (allocations.length > 0) {
+    allocations[0].troops += left;
+  }
+  return allocations;
+}
@@ -0,0 +1,328 @@
+import { Router, Request, Response } from 'express';
+import type { CombatRequest, NegotiateRequest } from './types';
+import { getStrategy, isStrategyName, listStrategyNames } from './strategies';
+import { createStrategySelector } from './strategies/selection';
+import type { ResolvedStrategy, StrategySelector } from './strategies/selection';
+import type { StrategyName } from './strategies/types';
+import { createAdminRouter, isAdminRequest } from './admin';
+import { planContextFor, repairPlan } from './actionPlan';
+import { computeCombatActions, computeSalvagedCombatActions } from './combat';
+import { withDeadline } from './deadline';
+import type { GuardedResult } from './deadline';
+import type { BotMetrics } from './botMetrics';
+import { createGameMemoryStore } from './memory';
+import type { GameMemoryStore } from './memory';
+import { createDecisionRecorder, createTraceStore, summarizeTrace } from './trace';
+import type { DecisionRecorder, DecisionTrace, TraceStore } from './trace';
+import { createReplayRecorder, invalidReplayEntry } from './replay/recorder';
+import type { ReplayRecorder } from './replay/recorder';
+import { formatIssues, validateCombatRequest, validateNegotiateRequest } from './validation';
+import { PROTOCOL_VERSION_HEADER, SUPPORTED_PROTOCOL_VERSIONS, detectProtocol } from './protocol';
+import type { DetectedProtocol } from './protocol';
+import type { ValidationIssue } from './validation';
+
+export const DEFAULT_BOT_ID = 'default';
+
+export interface BotConfig {
+  id: string;
+  name: string;
+  strategy: StrategyName;
+}
+
+/** One hosted bot: its own name, strategy selection and per-game state. */
+export interface BotInstance {
+  id: string;
+  name: string;
+  selector: StrategySelector;
+  memoryStore: GameMemoryStore;
+  traceStore: TraceStore;
+  replayRecorder?: ReplayRecorder;
+  /** Where `replayRecorder` writes, so recorded games can be read back. */
+  replayDir?: string;
+}
+
+export interface BotRouterOptions {
+  version: string;
+  metrics: BotMetrics;
+  adminToken?: string;
+  /** How long a strategy gets per turn before we answer with the fallback plan instead. */
+  turnBudgetMs: number;
+}
+
+export interface ReplayOptions {
+  dir: string;
+  retentionDays: number;
+}
+
+export interface TurnDiagnostics {
+  kind: 'invalid-request' | 'strategy-error' | 'strategy-timeout' | 'strategy-late' | 'plan-repaired';
+  issues?: ValidationIssue[];
+  error?: string;
+  repairs?: string[];
+}
+
+type TurnCall = { phase: 'negotiate'; request: NegotiateRequest } | { phase: 'combat'; request: CombatRequest };
+
+/** Share of the budget advertised to strategies as their deadline, leaving room to wrap up. */
+const STRATEGY_DEADLINE_SHARE = 0.8;
+
+export function createBotInstance(config: BotConfig, replay?: ReplayOptions): BotInstance {
+  const selector = createStrategySelector(config.strategy);
+  return {
+    id: config.id,
+    name: config.name,
+    selector,
+    // A game's strategy override is forgotten together with the game.
+    memoryStore: createGameMemoryStore({ onEvict: (gameId) => selector.clearGameOverride(gameId) }),
+    traceStore: createTraceStore(),
+    replayRecorder: replay && createReplayRecorder(replay),
+    replayDir: replay?.dir
+  };
+}
+
+/**
+ * Reads extra bots from a JSON array such as `[{"id": "tempo", "name": "Tempo Bot", "strategy": "tempo-threat"}]`;
+ * throws listing the first problem found.
+ */
+export function parseBotConfigs(raw: string): BotConfig[] {
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error('BOTS must be a JSON array');
+  }
+
+  const seen = new Set<string>([DEFAULT_BOT_ID]);
+  return parsed.map((entry: unknown, index: number) => {
+    const { id, name, strategy } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !/^[a-z0-9-]+$/.test(id)) {
+      throw new Error(`BOTS[${index}].id must be lowercase letters, digits and dashes`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`BOTS[${index}].id "${id}" is already taken`);
+    }
+    if (typeof strategy !== 'string' || !isStrategyName(strategy)) {
+      throw new Error(`BOTS[${index}].strategy must be one of ${listStrategyNames().join(', ')}`);
+    }
+    seen.add(id);
+    return { id, name: typeof name === 'string' && name !== '' ? name : id, strategy };
+  });
+}
+
+/** Routes for one bot: /negotiate, /combat, /info, /games/:gameId/trace and /admin. */
+export function createBotRouter(bot: BotInstance, options: BotRouterOptions): Router {
+  const router = Router();
+  const { metrics } = options;
+
+  /**
+   * `?strategy=<name>` wins over per-game overrides and the active strategy, but only on requests
+   * carrying the admin token; anyone else could otherwise steer the bot around the admin API.
+   */
+  function resolveStrategy(req: Request, gameId?: number): ResolvedStrategy {
+    const requested = req.query.strategy;
+    if (typeof requested === 'string' && isStrategyName(requested) && isAdminRequest(req, options.adminToken)) {
+      return { name: requested, strategy: getStrategy(requested) };
+    }
+    return bot.selector.resolve(gameId);
+  }
+
+  router.use((_req: Request, res: Response, next: () => void) => {
+    res.locals.bot = bot.id;
+    next();
+  });
+
+  router.use('/admin', createAdminRouter(bot.selector, options.adminToken));
+
+  router.get('/games/:gameId/trace', (req: Request, res: Response) => {
+    if (!isAdminRequest(req, options.adminToken)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    const gameId = Number(req.params.gameId);
+    const turn = req.query.turn !== undefined ? Number(req.query.turn) : undefined;
+    const traces = Number.isInteger(gameId) ? bot.traceStore.get(gameId) : undefined;
+    if (!traces) {
+      res.status(404).json({ error: `No trace for game ${req.params.gameId}` });
+      return;
+    }
+    res.json({ gameId, traces: turn === undefined ? traces : traces.filter((trace) => trace.turn === turn) });
+  });
+
+  router.get('/info', (req: Request, res: Response) => {
+    const gameId = req.query.gameId !== undefined ? Number(req.query.gameId) : undefined;
+    const { name } = resolveStrategy(req, Number.isInteger(gameId) ? gameId : undefined);
+    res.locals.strategy = name;
+    res.json({
+      name: bot.name,
+      strategy: name,
+      version: options.version,
+      protocolVersions: SUPPORTED_PROTOCOL_VERSIONS
+    });
+  });
+
+  /** Stores the decision trace and, when enabled, the replay line for a turn we just answered. */
+  function recordTurn(
+    res: Response,
+    call: TurnCall,
+    strategyName: StrategyName,
+    recorder: DecisionRecorder,
+    response: unknown[]
+  ): void {
+    const { gameId, turn } = call.request;
+    const trace: DecisionTrace = {
+      gameId,
+      turn,
+      phase: call.phase,
+      strategy: strategyName,
+      rules: recorder.rules(),
+      candidates: recorder.candidates(),
+      actions: response
+    };
+    bot.traceStore.record(trace);
+    res.locals.traceSummary = summarizeTrace(trace);
+    bot.replayRecorder?.record({ ...call, gameId, turn, strategy: strategyName, at: new Date().toISOString(), response });
+  }
+
+  /** Notes already logged, so a changed engine shape is reported once rather than every turn. */
+  const reportedProtocolNotes = new Set<string>();
+
+  /**
+   * Detects the protocol of a turn request, answers in that version's header and returns the
+   * adapter with the body normalised into our types.
+   */
+  function readTurnRequest(
+    req: Request,
+    res: Response,
+    route: string,
+    normalize: 'normalizeNegotiate' | 'normalizeCombat'
+  ): { protocol: DetectedProtocol; body: unknown } {
+    const protocol = detectProtocol(req.headers, req.body);
+    const { body, notes } = protocol.adapter[normalize](req.body);
+    res.setHeader(PROTOCOL_VERSION_HEADER, protocol.adapter.version);
+    for (const note of protocol.note ? [protocol.note, ...notes] : notes) {
+      const key = `${route} ${protocol.requested} ${note}`;
+      if (!reportedProtocolNotes.has(key)) {
+        reportedProtocolNotes.add(key);
+        console.warn(`[KW-BOT] ${route} bot=${bot.id} protocol ${protocol.requested}: ${note}`);
+      }
+    }
+    return { protocol, body };
+  }
+
+  /** Calls a strategy method under the turn budget, falling back to `fallback` when it throws or never answers. */
+  function guardStrategyCall<T>(primary: (deadline: number) => T, fallback: () => T): Promise<GuardedResult<T>> {
+    const deadline = Date.now() + options.turnBudgetMs * STRATEGY_DEADLINE_SHARE;
+    return withDeadline(() => primary(deadline), fallback, options.turnBudgetMs);
+  }
+
+  /** Records latency for a guarded call and reports a fallback, returning diagnostics when one was used. */
+  function settleGuardedCall(
+    res: Response,
+    route: string,
+    strategyName: StrategyName,
+    body: { gameId: number; turn: number },
+    guarded: GuardedResult<unknown>,
+    trace: DecisionRecorder
+  ): TurnDiagnostics | undefined {
+    res.locals.latencyMs = guarded.latencyMs;
+    metrics.strategyCall(bot.id, route, strategyName, guarded.outcome, guarded.latencyMs / 1000);
+    if (guarded.outcome === 'ok') {
+      return undefined;
+    }
+
+    const where = `${route} bot=${bot.id} game=${body.gameId} turn=${body.turn}`;
+    if (guarded.outcome === 'late') {
+      console.warn(`[KW-BOT] strategy ${strategyName} overran the budget on ${where}, answer kept: ${guarded.error}`);
+      trace.rule('strategy-late', { latencyMs: guarded.latencyMs, budgetMs: options.turnBudgetMs });
+      return { kind: 'strategy-late', error: guarded.error };
+    }
+    if (guarded.outcome === 'timeout') {
+      console.warn(`[KW-BOT] strategy ${strategyName} timed out on ${where} after ${guarded.latencyMs.toFixed(1)}ms`);
+      trace.rule('strategy-timeout', { latencyMs: guarded.latencyMs, budgetMs: options.turnBudgetMs });
+      return { kind: 'strategy-timeout', error: guarded.error };
+    }
+    console.error(`[KW-BOT] strategy ${strategyName} failed on ${where}: ${guarded.error}`);
+    trace.rule('strategy-error', { error: guarded.error });
+    return { kind: 'strategy-error', error: guarded.error };
+  }
+
+  router.post('/negotiate', async (req: Request, res: Response) => {
+    const { protocol, body: normalized } = readTurnRequest(req, res, '/negotiate', 'normalizeNegotiate');
+    const validation = validateNegotiateRequest(normalized);
+    if (!validation.ok) {
+      console.warn(`[KW-BOT] invalid /negotiate payload for bot=${bot.id}: ${formatIssues(validation.issues)}`);
+      metrics.validationFailure(bot.id, '/negotiate');
+      // Proposing nothing costs us no turn; combat is where a bad payload must still be played.
+      bot.replayRecorder?.record(invalidReplayEntry('negotiate', req.body, validation.issues, []));
+      sendTurnResponse(req, res, [], { kind: 'invalid-request', issues: validation.issues });
+      return;
+    }
+
+    const body = validation.value;
+    const { name, strategy } = resolveStrategy(req, body.gameId);
+    res.locals.strategy = name;
+    const trace = createDecisionRecorder();
+    // Memory is updated outside the guard, so a turn that falls back is still remembered.
+    const memory = bot.memoryStore.recordNegotiate(body);
+    const guarded = await guardStrategyCall(
+      (deadline) => strategy.negotiate(body, { memory, trace, deadline }),
+      () => []
+    );
+    const diagnostics = settleGuardedCall(res, '/negotiate', name, body, guarded, trace);
+    bot.memoryStore.recordOurProposals(body, guarded.value);
+    recordTurn(res, { phase: 'negotiate', request: body }, name, trace, guarded.value);
+    sendTurnResponse(req, res, protocol.adapter.serializeNegotiate(guarded.value), diagnostics);
+  });
+
+  router.post('/combat', async (req: Request, res: Response) => {
+    const { protocol, body: normalized } = readTurnRequest(req, res, '/combat', 'normalizeCombat');
+    const validation = validateCombatRequest(normalized);
+    if (!validation.ok) {
+      console.warn(`[KW-BOT] invalid /combat payload for bot=${bot.id}: ${formatIssues(validation.issues)}`);
+      metrics.validationFailure(bot.id, '/combat');
+      // Still play the turn with the basic plan on whatever part of the payload is usable.
+      const fallback = computeSalvagedCombatActions(normalized);
+      bot.replayRecorder?.record(invalidReplayEntry('combat', req.body, validation.issues, fallback));
+      sendTurnResponse(req, res, protocol.adapter.serializeCombat(fallback), { kind: 'invalid-request', issues: validation.issues });
+      return;
+    }
+
+    const body = validation.value;
+    const { name, strategy } = resolveStrategy(req, body.gameId);
+    res.locals.strategy = name;
+    const trace = createDecisionRecorder();
+    const memory = bot.memoryStore.recordCombat(body);
+    const guarded = await guardStrategyCall(
+      (deadline) => strategy.combat(body, { memory, trace, deadline }),
+      () => computeCombatActions(body, trace)
+    );
+    const diagnostics = settleGuardedCall(res, '/combat', name, body, guarded, trace);
+    const { actions, changes } = repairPlan(guarded.value, planContextFor(body));
+    if (changes.length > 0) {
+      trace.rule('plan-repaired', { changes });
+      metrics.planRepaired(bot.id, name);
+    }
+    metrics.combatPlan(bot.id, name, actions, body.playerTower.level);
+    recordTurn(res, { phase: 'combat', request: body }, name, trace, actions);
+    if (changes.length > 0) {
+      console.warn(`[KW-BOT] repaired ${name} plan bot=${bot.id} game=${body.gameId} turn=${body.turn}: ${changes.join('; ')}`);
+      const repaired: TurnDiagnostics = diagnostics ?? { kind: 'plan-repaired', repairs: changes };
+      sendTurnResponse(req, res, protocol.adapter.serializeCombat(actions), repaired);
+      return;
+    }
+    sendTurnResponse(req, res, protocol.adapter.serializeCombat(actions), diagnostics);
+  });
+
+  return router;
+}
+
+/**
+ * Sends a turn response. With `?debug=1` the payload is wrapped together with any diagnostics;
+ * the engine never sets it, so in real games it always gets the plain array.
+ */
+export function sendTurnResponse(req: Request, res: Response, payload: unknown[], diagnostics?: TurnDiagnostics): void {
+  const debug = req.query.debug === '1' || req.query.debug === 'true';
+  if (debug) {
+    res.json({ response: payload, diagnostics: diagnostics ?? null });
+    return;
+  }
+  res.json(payload);
+}
@@ -0,0 +1,79 @@
+import type { CombatAction } from './types';
+import { actionCost } from './types';
+import type { GuardOutcome } from './deadline';
+import { createMetricsRegistry } from './metrics';
+import type { MetricsRegistry } from './metrics';
+
+export interface BotMetrics {
+  registry: MetricsRegistry;
+  request: (route: string, strategy: string, status: number, seconds: number) => void;
+  validationFailure: (bot: string, route: string) => void;
+  strategyCall: (bot: string, route: string, strategy: string, outcome: GuardOutcome, seconds: number) => void;
+  planRepaired: (bot: string, strategy: string) => void;
+  /** Counts the actions we actually sent and what they cost a tower at `level`. */
+  combatPlan: (bot: string, strategy: string, actions: CombatAction[], level: number) => void;
+}
+
+/**
+ * Prometheus metrics for every hosted bot; series carry a `bot` label, except requests whose
+ * route already names the bot. `gamesInProgress` is read on every scrape.
+ */
+export function createBotMetrics(gamesInProgress: () => number): BotMetrics {
+  const registry = createMetricsRegistry();
+  const requests = registry.counter('kwbot_requests_total', 'HTTP requests handled, by route, strategy and status.');
+  const requestDuration = registry.histogram(
+    'kwbot_request_duration_seconds',
+    'Time from receiving a request to finishing the response, by route and strategy.'
+  );
+  const validationFailures = registry.counter(
+    'kwbot_validation_failures_total',
+    'Turn payloads rejected by request validation, by route.'
+  );
+  const strategyDuration = registry.histogram(
+    'kwbot_strategy_duration_seconds',
+    'Time a strategy took to answer, by route, strategy and outcome (ok, late, timeout, error).'
+  );
+  const fallbacks = registry.counter(
+    'kwbot_strategy_fallbacks_total',
+    'Turns answered by the fallback plan because the strategy timed out or threw.'
+  );
+  const repairs = registry.counter('kwbot_plan_repairs_total', 'Combat plans that needed repairing before sending.');
+  const actions = registry.counter('kwbot_actions_total', 'Combat actions sent, by strategy and type.');
+  const troops = registry.counter('kwbot_troops_sent_total', 'Troops sent in attacks, by strategy.');
+  const spent = registry.counter('kwbot_resources_spent_total', 'Resources committed by sent combat plans, by strategy.');
+  registry.gauge('kwbot_games_in_progress', 'Games that sent any hosted bot a turn recently.', gamesInProgress);
+
+  return {
+    registry,
+
+    request(route, strategy, status, seconds) {
+      requests.inc({ route, strategy, status: String(status) });
+      requestDuration.observe({ route, strategy }, seconds);
+    },
+
+    validationFailure(bot, route) {
+      validationFailures.inc({ bot, route });
+    },
+
+    strategyCall(bot, route, strategy, outcome, seconds) {
+      strategyDuration.observe({ bot, route, strategy, outcome }, seconds);
+      if (outcome === 'timeout' || outcome === 'error') {
+        fallbacks.inc({ bot, route, strategy, reason: outcome });
+      }
+    },
+
+    planRepaired(bot, strategy) {
+      repairs.inc({ bot, strategy });
+    },
+
+    combatPlan(bot, strategy, plan, level) {
+      for (const action of plan) {
+        actions.inc({ bot, strategy, type: action.type });
+        if (action.type === 'attack') {
+          troops.inc({ bot, strategy }, action.troopCount);
+        }
+      }
+      spent.inc({ bot, strategy }, plan.reduce((sum, action) => sum + actionCost(action, level), 0));
+    }
+  };
+}
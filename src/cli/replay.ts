@@ -0,0 +1,61 @@
+/**
+ * Replays a recorded game through any strategy and shows where its answers differ from what we sent.
+ * Usage: npm run replay -- <recording.jsonl> [--strategy tempo-threat] [--diff-only] [--json]
+ * Set STRATEGY_DEFINITIONS_DIR to replay through `config:` pipelines defined outside the built-in set.
+ */
+import { getStrategy, isStrategyName, listStrategyNames, registerStrategyDefinitions } from '../strategies';
+import { readReplay } from '../replay/recorder';
+import { formatReplayTurn, replayGame } from '../replay/replayer';
+
+async function main(): Promise<void> {
+  if (process.env.STRATEGY_DEFINITIONS_DIR) {
+    registerStrategyDefinitions(process.env.STRATEGY_DEFINITIONS_DIR);
+  }
+  const args = process.argv.slice(2);
+  let file: string | undefined;
+  let strategyName: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--strategy') {
+      strategyName = args[++i];
+    } else if (!args[i].startsWith('--')) {
+      file = args[i];
+    }
+  }
+
+  if (!file) {
+    throw new Error('Usage: npm run replay -- <recording.jsonl> [--strategy name] [--diff-only] [--json]');
+  }
+
+  const entries = await readReplay(file);
+  if (entries.length === 0) {
+    throw new Error(`No entries in ${file}`);
+  }
+  // Without --strategy, replay with the first strategy the recording names; fallback entries name none.
+  const recorded = entries.find((entry) => isStrategyName(entry.strategy))?.strategy;
+  const name = strategyName ?? recorded;
+  if (name === undefined) {
+    throw new Error(`No entry in ${file} names a known strategy; pass --strategy (${listStrategyNames().join(', ')})`);
+  }
+  if (!isStrategyName(name)) {
+    throw new Error(`Unknown strategy "${name}". Known: ${listStrategyNames().join(', ')}`);
+  }
+
+  const turns = replayGame(entries, getStrategy(name));
+  const shown = args.includes('--diff-only') ? turns.filter((turn) => turn.differs) : turns;
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ gameId: entries[0].gameId, strategy: name, turns: shown }, null, 2));
+    return;
+  }
+
+  const differing = turns.filter((turn) => turn.differs).length;
+  console.log(`game ${entries[0].gameId}: ${name} differs on ${differing} of ${turns.length} calls`);
+  for (const turn of shown) {
+    console.log(formatReplayTurn(turn));
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
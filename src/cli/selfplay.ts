@@ -0,0 +1,115 @@
+/**
+ * End-to-end smoke test over HTTP: starts this app hosting one bot per strategy (and/or uses
+ * running bots given by URL), plays full games against them as the engine would, writes the
+ * results and exits non-zero on any protocol error.
+ * Usage: npm run selfplay -- [--strategies a,b,c] [--urls name=http://host/bots/x,...] [--games 3]
+ *   [--port 8100] [--max-turns 60] [--timeout-ms 2000] [--out selfplay] [--json]
+ */
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { BotConfig } from '../bot';
+import { isStrategyName, listStrategyNames } from '../strategies';
+import { DEFAULT_SIMULATOR_CONFIG } from '../simulator';
+import { DEFAULT_TIMEOUT_MS, formatSelfPlayReport, launchBotApp, runSelfPlay } from '../selfplay';
+import type { SelfPlaySeat } from '../selfplay';
+
+const DEFAULT_STRATEGIES = 'armor-control,tempo-threat,hybrid-lite,meta';
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args.set(arg.slice(2), 'true');
+    } else {
+      args.set(arg.slice(2), next);
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/** One bot per listed strategy; a strategy listed twice gets two bots, so each seat has its own memory. */
+function parseBots(value: string): BotConfig[] {
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '')
+    .map((strategy, index) => {
+      if (!isStrategyName(strategy)) {
+        throw new Error(`Unknown strategy "${strategy}". Known: ${listStrategyNames().join(', ')}`);
+      }
+      return { id: `seat-${index + 1}`, name: `${strategy} #${index + 1}`, strategy };
+    });
+}
+
+function parseUrls(value: string | undefined): SelfPlaySeat[] {
+  if (!value) {
+    return [];
+  }
+  return value.split(',').map((entry) => {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Expected name=url, got "${entry}"`);
+    }
+    return { name: entry.slice(0, separator).trim(), url: entry.slice(separator + 1).trim().replace(/\/$/, '') };
+  });
+}
+
+async function main(): Promise<boolean> {
+  const args = parseArgs(process.argv.slice(2));
+  const external = parseUrls(args.get('urls'));
+  const bots = parseBots(args.get('strategies') ?? (external.length > 0 ? '' : DEFAULT_STRATEGIES));
+
+  const app = bots.length > 0 ? await launchBotApp({ bots, port: parseNumber(args.get('port'), 8100) }) : undefined;
+  try {
+    const hosted: SelfPlaySeat[] = app ? bots.map((bot) => ({ name: bot.name, url: app.urls.get(bot.id)! })) : [];
+    const seats = [...hosted, ...external];
+    const report = await runSelfPlay({
+      seats,
+      games: parseNumber(args.get('games'), 3),
+      config: { maxTurns: parseNumber(args.get('max-turns'), DEFAULT_SIMULATOR_CONFIG.maxTurns) },
+      timeoutMs: parseNumber(args.get('timeout-ms'), DEFAULT_TIMEOUT_MS)
+    });
+    const appWarnings = app?.warnings() ?? [];
+
+    const out = path.join(args.get('out') ?? 'selfplay', `selfplay-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+    mkdirSync(path.dirname(out), { recursive: true });
+    writeFileSync(out, `${JSON.stringify({ ...report, appWarnings }, null, 2)}\n`);
+
+    if (args.has('json')) {
+      console.log(JSON.stringify({ standings: report.standings, errors: report.errors, appWarnings }, null, 2));
+    } else {
+      console.log(formatSelfPlayReport(report));
+      if (appWarnings.length > 0) {
+        console.log(['', 'app warnings:', ...appWarnings].join('\n'));
+      }
+      console.log(`\nresults written to ${out}`);
+    }
+    return report.errors.length === 0;
+  } finally {
+    await app?.stop();
+  }
+}
+
+main()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
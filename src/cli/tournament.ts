@@ -0,0 +1,76 @@
+/**
+ * Round-robin tournament between registered strategies.
+ * Usage: npm run tournament -- [--strategies a,b,c] [--games 100] [--players 4] [--seed 1] [--definitions dir] [--json]
+ */
+import { STRATEGY_NAMES, isStrategyName, listStrategyNames, registerStrategyDefinitions } from '../strategies';
+import type { StrategyName } from '../strategies/types';
+import { formatTournamentTable, runTournament } from '../simulator';
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args.set(arg.slice(2), 'true');
+    } else {
+      args.set(arg.slice(2), next);
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseStrategies(value: string | undefined): StrategyName[] {
+  if (!value) {
+    return STRATEGY_NAMES;
+  }
+  return value.split(',').map((name) => {
+    const trimmed = name.trim();
+    if (!isStrategyName(trimmed)) {
+      throw new Error(`Unknown strategy "${trimmed}". Known: ${listStrategyNames().join(', ')}`);
+    }
+    return trimmed;
+  });
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const definitionsDir = args.get('definitions') ?? process.env.STRATEGY_DEFINITIONS_DIR;
+  if (definitionsDir) {
+    registerStrategyDefinitions(definitionsDir);
+  }
+  const report = runTournament({
+    strategies: parseStrategies(args.get('strategies')),
+    games: parseNumber(args.get('games'), 100),
+    playersPerGame: parseNumber(args.get('players'), 4),
+    seed: parseNumber(args.get('seed'), 1)
+  });
+
+  if (args.has('json')) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  console.log(formatTournamentTable(report));
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,108 @@
+/**
+ * Searches a strategy's parameter space by self-play and writes the best parameter sets, plus
+ * the best one as a strategy definition: deploy it with `STRATEGY_DEFINITIONS_DIR=tuning/definitions`
+ * and `STRATEGY=config:<strategy>-tuned`.
+ * Usage: npm run tune -- --strategy armor-control [--samples 30] [--games 60] [--confirm-games 300]
+ *   [--top 3] [--players 4] [--seed 1] [--opponents a,b,c] [--out tuning/armor-control.json]
+ *   [--definition-out tuning/definitions/armor-control-tuned.json] [--json]
+ */
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { STRATEGY_NAMES, isStrategyName, listStrategyNames } from '../strategies';
+import type { StrategyName } from '../strategies/types';
+import { TUNABLE_STRATEGIES, definitionWithParams, findTunableStrategy, formatTuningReport, tuneStrategy } from '../tuning';
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args.set(arg.slice(2), 'true');
+    } else {
+      args.set(arg.slice(2), next);
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/** The lookahead search is too slow to sit in thousands of tuning games, so it is left out by default. */
+function parseOpponents(value: string | undefined, tuned: StrategyName): StrategyName[] {
+  if (!value) {
+    return [tuned, ...STRATEGY_NAMES.filter((name) => name !== tuned && name !== 'search')];
+  }
+  return value.split(',').map((name) => {
+    const trimmed = name.trim();
+    if (!isStrategyName(trimmed)) {
+      throw new Error(`Unknown strategy "${trimmed}". Known: ${listStrategyNames().join(', ')}`);
+    }
+    return trimmed;
+  });
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const name = args.get('strategy') ?? '';
+  const tunable = findTunableStrategy(name);
+  if (!tunable) {
+    throw new Error(`Cannot tune "${name}". Tunable: ${TUNABLE_STRATEGIES.map((t) => t.name).join(', ')}`);
+  }
+
+  const report = tuneStrategy(tunable, {
+    samples: parseNumber(args.get('samples'), 30),
+    games: parseNumber(args.get('games'), 60),
+    confirmGames: parseNumber(args.get('confirm-games'), 300),
+    top: parseNumber(args.get('top'), 3),
+    playersPerGame: parseNumber(args.get('players'), 4),
+    seed: parseNumber(args.get('seed'), 1),
+    opponents: parseOpponents(args.get('opponents'), tunable.name)
+  });
+
+  const out = args.get('out') ?? path.join('tuning', `${tunable.name}.json`);
+  mkdirSync(path.dirname(out), { recursive: true });
+  writeFileSync(out, `${JSON.stringify(report, null, 2)}\n`);
+
+  // Only a sample that beat the defaults on the confirmation games is worth deploying.
+  const [best] = report.best;
+  const improved = best.winRate > report.baseline.winRate;
+  const tunedName = `${tunable.name}-tuned`;
+  const definitionOut = args.get('definition-out') ?? path.join('tuning', 'definitions', `${tunedName}.json`);
+  if (improved) {
+    const definition = definitionWithParams(tunable, best.params, tunedName);
+    mkdirSync(path.dirname(definitionOut), { recursive: true });
+    writeFileSync(definitionOut, `${JSON.stringify(definition, null, 2)}\n`);
+  }
+
+  if (args.has('json')) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  console.log(formatTuningReport(report));
+  console.log(
+    improved
+      ? `written to ${out}; best parameters as config:${tunedName} in ${definitionOut}`
+      : `written to ${out}; the baseline won, so no tuned definition was written`
+  );
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -1,13 +1,14 @@
 import type { CombatRequest, CombatAction } from './types';
-import { upgradeCost } from './types';
-
-const MAX_LEVEL = 6;
+import { MAX_LEVEL, upgradeCost } from './types';
+import type { DecisionRecorder } from './trace';
+import { planContextFor, repairPlan } from './actionPlan';
+import { salvageCombatRequest } from './validation';
 
 /**
  * Computes a valid list of combat actions for the current turn.
  * Respects: at most one armor, one upgrade, no duplicate targetId, total cost <= resources.
  */
-export function computeCombatActions(request: CombatRequest): CombatAction[] {
+export function computeCombatActions(request: CombatRequest, trace?: DecisionRecorder): CombatAction[] {
   const actions: CombatAction[] = [];
   const { playerTower, enemyTowers } = request;
   let resources = playerTower.resources ?? 0;
@@ -21,6 +22,7 @@ export function computeCombatActions(request: CombatRequest): CombatAction[] {
     if (amount > 0) {
       actions.push({ type: 'armor', amount });
       resources -= amount;
+      trace?.rule('armor', { armor: playerTower.armor, amount });
     }
   }
 
@@ -34,6 +36,7 @@ export function computeCombatActions(request: CombatRequest): CombatAction[] {
       const troopCount = Math.min(attackBudget, 50);
       actions.push({ type: 'attack', targetId: target.playerId, troopCount });
       resources -= troopCount;
+      trace?.rule('attack-lowest-hp', { targetId: target.playerId, hp: target.hp, troopCount });
     }
   }
 
@@ -41,7 +44,17 @@ export function computeCombatActions(request: CombatRequest): CombatAction[] {
   const cost = upgradeCost(level);
   if (level < MAX_LEVEL && resources >= cost) {
     actions.push({ type: 'upgrade' });
+    trace?.rule('upgrade', { level, cost });
   }
 
   return actions;
 }
+
+/**
+ * The plan for a /combat payload that failed validation: the basic plan on whatever part of it
+ * is usable, or nothing when even our own tower is unreadable.
+ */
+export function computeSalvagedCombatActions(body: unknown): CombatAction[] {
+  const salvaged = salvageCombatRequest(body);
+  return salvaged ? repairPlan(computeCombatActions(salvaged), planContextFor(salvaged)).actions : [];
+}
@@ -0,0 +1,134 @@
+import { Router, Request, Response } from 'express';
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import { isAdminRequest } from '../admin';
+import type { BotInstance } from '../bot';
+import { readReplay, replayFileName } from '../replay/recorder';
+import { renderGame, renderGameList, renderPage } from './render';
+import type { BotGames, GameListing } from './render';
+import { buildTimeline, timelineFromReplay } from './timeline';
+
+export { buildTimeline, timelineFromReplay } from './timeline';
+export type { GameTimeline, TimelineTower, TimelineTurn } from './timeline';
+
+export interface DashboardOptions {
+  /** A game counts as active while it has sent us a turn within this window. */
+  activeWindowMs: number;
+  /** Most games listed per bot, newest first. */
+  maxGamesPerBot?: number;
+  /** Game pages are only served to requests carrying this token; without one they are off. */
+  adminToken?: string;
+  now?: () => number;
+}
+
+const DEFAULT_MAX_GAMES_PER_BOT = 50;
+const RECORDING_PATTERN = /^game-(\d+)\.jsonl$/;
+
+/** Recordings in a bot's replay directory, or none when it has no directory yet. */
+async function listRecordings(dir: string | undefined): Promise<GameListing[]> {
+  if (!dir) {
+    return [];
+  }
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+  const listings: GameListing[] = [];
+  for (const file of files) {
+    const match = RECORDING_PATTERN.exec(file);
+    if (match) {
+      const { mtimeMs } = await stat(path.join(dir, file));
+      listings.push({ gameId: Number(match[1]), updatedAt: mtimeMs, source: 'recorded', active: false });
+    }
+  }
+  return listings;
+}
+
+/** Live games from memory first; recordings fill in games memory has already forgotten. */
+async function listGames(bot: BotInstance, options: DashboardOptions, now: number): Promise<GameListing[]> {
+  const live: GameListing[] = bot.memoryStore.gameIds().flatMap((gameId) => {
+    const memory = bot.memoryStore.get(gameId);
+    if (!memory) {
+      return [];
+    }
+    const active = now - memory.lastSeenAt < options.activeWindowMs;
+    return [{ gameId, updatedAt: memory.lastSeenAt, source: 'live' as const, active, lastTurn: memory.lastTurn }];
+  });
+  const liveIds = new Set(live.map((game) => game.gameId));
+  const recorded = (await listRecordings(bot.replayDir)).filter((game) => !liveIds.has(game.gameId));
+  return [...live, ...recorded]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, options.maxGamesPerBot ?? DEFAULT_MAX_GAMES_PER_BOT);
+}
+
+function notFound(res: Response, message: string): void {
+  res.status(404).type('html').send(renderPage('Not found', `<p><a href="/dashboard">&larr; all games</a></p><p>${message}</p>`));
+}
+
+/**
+ * Read-only HTML pages: `/dashboard` lists every bot's active and recent games, and
+ * `/dashboard/bots/:botId/games/:gameId` shows a game's turn-by-turn timeline. Both need the
+ * admin token, since they expose what we know and plan; `/` is a plain landing page. Pages are
+ * rendered on the server with inline styles and SVG, so they need no scripts or external assets.
+ */
+export function createDashboardRouter(bots: Map<string, BotInstance>, options: DashboardOptions): Router {
+  const router = Router();
+  const now = options.now ?? Date.now;
+
+  async function index(_req: Request, res: Response): Promise<void> {
+    const at = now();
+    const listings: BotGames[] = [];
+    for (const bot of bots.values()) {
+      listings.push({
+        botId: bot.id,
+        botName: bot.name,
+        strategy: bot.selector.getActive(),
+        games: await listGames(bot, options, at)
+      });
+    }
+    res.type('html').send(renderGameList(listings, at));
+  }
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.type('html').send(renderPage('Kingdom Wars bot', '<p><a href="/dashboard">Dashboard</a></p>'));
+  });
+
+  router.use('/dashboard', (req: Request, res: Response, next: () => void) => {
+    if (!isAdminRequest(req, options.adminToken)) {
+      res.status(401).type('html').send(renderPage('Unauthorized', '<p>The dashboard needs the admin token.</p>'));
+      return;
+    }
+    next();
+  });
+
+  router.get('/dashboard', index);
+
+  router.get('/dashboard/bots/:botId/games/:gameId', async (req: Request, res: Response) => {
+    const bot = bots.get(String(req.params.botId));
+    const gameId = Number(req.params.gameId);
+    if (!bot || !Number.isInteger(gameId)) {
+      notFound(res, 'Unknown bot or game.');
+      return;
+    }
+
+    const memory = req.query.source === 'recorded' ? undefined : bot.memoryStore.get(gameId);
+    if (memory) {
+      res.type('html').send(renderGame(bot.name, buildTimeline(memory, bot.traceStore.get(gameId)), 'live'));
+      return;
+    }
+    const timeline = bot.replayDir
+      ? await readReplay(path.join(bot.replayDir, replayFileName(gameId)))
+          .then(timelineFromReplay)
+          .catch(() => undefined)
+      : undefined;
+    if (!timeline) {
+      notFound(res, `No live or recorded game ${gameId} for bot ${bot.id}.`);
+      return;
+    }
+    res.type('html').send(renderGame(bot.name, timeline, 'recorded'));
+  });
+
+  return router;
+}
@@ -0,0 +1,178 @@
+import { describeActions } from '../trace';
+import type { DecisionTrace } from '../trace';
+import type { GameTimeline, TimelineTurn } from './timeline';
+
+export interface GameListing {
+  gameId: number;
+  /** Milliseconds since the epoch of the last call we saw, or the recording's last write. */
+  updatedAt: number;
+  source: 'live' | 'recorded';
+  active: boolean;
+  lastTurn?: number;
+}
+
+export interface BotGames {
+  botId: string;
+  botName: string;
+  strategy: string;
+  games: GameListing[];
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 160;
+const PALETTE = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777'];
+
+/** Everything is inlined: the dashboard has to work on machines with no internet access. */
+const STYLE = `
+body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; color: #111; background: #fafafa; }
+h1, h2, h3 { margin: 0 0 8px; }
+a { color: #2563eb; }
+table { border-collapse: collapse; margin: 4px 0 8px; }
+th, td { border: 1px solid #ddd; padding: 2px 8px; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+tr.us td { font-weight: 600; background: #eef2ff; }
+.turn { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: 12px; margin: 12px 0; }
+.grid { display: flex; flex-wrap: wrap; gap: 24px; }
+.muted { color: #666; }
+.badge { display: inline-block; padding: 0 6px; border-radius: 4px; background: #e5e7eb; font-size: 12px; }
+.badge.active { background: #bbf7d0; }
+`;
+
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderPage(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function gameLink(botId: string, game: GameListing): string {
+  const query = game.source === 'recorded' ? '?source=recorded' : '';
+  return `/dashboard/bots/${encodeURIComponent(botId)}/games/${game.gameId}${query}`;
+}
+
+export function renderGameList(bots: BotGames[], now: number): string {
+  const sections = bots.map((bot) => {
+    const rows = bot.games.map((game) => {
+      const status = game.active ? '<span class="badge active">active</span>' : `<span class="badge">${game.source}</span>`;
+      const ago = Math.max(0, Math.round((now - game.updatedAt) / 1000));
+      return `<tr><td><a href="${escapeHtml(gameLink(bot.botId, game))}">${game.gameId}</a></td><td>${status}</td><td>${
+        game.lastTurn ?? '-'
+      }</td><td>${ago}s ago</td></tr>`;
+    });
+    const table =
+      rows.length > 0
+        ? `<table><tr><th>game</th><th>status</th><th>last turn</th><th>updated</th></tr>${rows.join('')}</table>`
+        : '<p class="muted">No games yet.</p>';
+    return `<section><h2>${escapeHtml(bot.botName)} <span class="muted">(${escapeHtml(bot.botId)}, ${escapeHtml(
+      bot.strategy
+    )})</span></h2>${table}</section>`;
+  });
+  return renderPage('Kingdom Wars bot', `<h1>Kingdom Wars bot</h1>${sections.join('\n')}`);
+}
+
+/** HP of every tower over the game as an inline SVG line chart. */
+function renderHpChart(timeline: GameTimeline): string {
+  const turns = timeline.turns;
+  const playerIds = [...new Set(turns.flatMap((turn) => turn.towers.map((tower) => tower.playerId)))].sort((a, b) => a - b);
+  const maxHp = Math.max(1, ...turns.flatMap((turn) => turn.towers.map((tower) => tower.hp)));
+  if (turns.length < 2) {
+    return '';
+  }
+  const firstTurn = turns[0].turn;
+  const span = Math.max(1, turns[turns.length - 1].turn - firstTurn);
+  const x = (turn: number) => ((turn - firstTurn) / span) * CHART_WIDTH;
+  const y = (hp: number) => CHART_HEIGHT - (Math.max(0, hp) / maxHp) * CHART_HEIGHT;
+
+  const lines = playerIds.map((playerId, index) => {
+    const points = turns
+      .map((turn) => ({ turn: turn.turn, tower: turn.towers.find((tower) => tower.playerId === playerId) }))
+      .filter((point) => point.tower)
+      .map((point) => `${x(point.turn).toFixed(1)},${y(point.tower!.hp).toFixed(1)}`);
+    const color = PALETTE[index % PALETTE.length];
+    const width = playerId === timeline.playerId ? 3 : 1.5;
+    return `<polyline fill="none" stroke="${color}" stroke-width="${width}" points="${points.join(' ')}"/>`;
+  });
+  const legend = playerIds
+    .map((playerId, index) => {
+      const label = playerId === timeline.playerId ? `${playerId} (us)` : String(playerId);
+      return `<span style="color:${PALETTE[index % PALETTE.length]}">&#9632; ${label}</span>`;
+    })
+    .join(' ');
+  return `<h3>HP by turn</h3><svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="-4 -4 ${CHART_WIDTH + 8} ${
+    CHART_HEIGHT + 8
+  }" role="img">${lines.join('')}</svg><div>${legend}</div>`;
+}
+
+function renderProposals(title: string, proposals: TimelineTurn['proposed']): string {
+  if (proposals.length === 0) {
+    return '';
+  }
+  const items = proposals.map((proposal) => {
+    const target = proposal.attackTargetId !== undefined ? ` against ${proposal.attackTargetId}` : '';
+    return `<li>${proposal.proposerId} &rarr; ally ${proposal.allyId}${target}</li>`;
+  });
+  return `<div><h3>${title}</h3><ul>${items.join('')}</ul></div>`;
+}
+
+function renderAttacks(title: string, attacks: TimelineTurn['attacksIn']): string {
+  if (attacks.length === 0) {
+    return '';
+  }
+  const items = attacks.map((attack) => `<li>${attack.attackerId} &rarr; ${attack.targetId}: ${attack.troopCount} troops</li>`);
+  return `<div><h3>${title}</h3><ul>${items.join('')}</ul></div>`;
+}
+
+function renderDecision(title: string, trace?: DecisionTrace): string {
+  if (!trace) {
+    return '';
+  }
+  const rules = trace.rules.length > 0 ? `<div class="muted">rules: ${escapeHtml(trace.rules.map((rule) => rule.name).join(', '))}</div>` : '';
+  return `<div><h3>${title}</h3><div>${escapeHtml(describeActions(trace.actions))}</div><div class="muted">${escapeHtml(
+    trace.strategy
+  )}</div>${rules}</div>`;
+}
+
+function renderTurn(turn: TimelineTurn): string {
+  const rows = turn.towers.map(
+    (tower) =>
+      `<tr${tower.us ? ' class="us"' : ''}><td>${tower.playerId}${tower.us ? ' (us)' : ''}</td><td>${tower.hp}</td><td>${
+        tower.armor
+      }</td><td>${tower.level}</td><td>${tower.resources ?? '-'}</td></tr>`
+  );
+  const details = [
+    renderDecision('Negotiate', turn.negotiate),
+    renderDecision('Combat', turn.combat),
+    renderProposals('We proposed', turn.proposed),
+    renderProposals('We received', turn.received),
+    renderAttacks('Attacks in', turn.attacksIn),
+    renderAttacks('Attacks out', turn.attacksOut)
+  ].join('');
+  return `<div class="turn"><h2>Turn ${turn.turn}</h2><div class="grid"><table><tr><th>player</th><th>hp</th><th>armor</th><th>level</th><th>resources</th></tr>${rows.join(
+    ''
+  )}</table>${details}</div></div>`;
+}
+
+export function renderGame(botName: string, timeline: GameTimeline, source: GameListing['source']): string {
+  const title = `Game ${timeline.gameId}`;
+  const body = `<p><a href="/dashboard">&larr; all games</a></p><h1>${title} <span class="muted">${escapeHtml(
+    botName
+  )}, player ${timeline.playerId}, ${source}</span></h1>${renderHpChart(timeline)}${timeline.turns.map(renderTurn).join('\n')}`;
+  return renderPage(title, body);
+}
@@ -0,0 +1,104 @@
+import { createGameMemoryStore } from '../memory';
+import type { AllianceProposal, GameMemory, ObservedAttack, TowerSnapshot } from '../memory';
+import { isInvalidReplayEntry } from '../replay/recorder';
+import type { ReplayEntry } from '../replay/recorder';
+import type { DecisionTrace } from '../trace';
+import type { NegotiateResponseItem } from '../types';
+
+export interface TimelineTower extends Omit<TowerSnapshot, 'turn'> {
+  playerId: number;
+  us: boolean;
+}
+
+export interface TimelineTurn {
+  turn: number;
+  towers: TimelineTower[];
+  proposed: AllianceProposal[];
+  received: AllianceProposal[];
+  /** Attacks resolved on this turn, as reported at the start of the next one. */
+  attacksIn: ObservedAttack[];
+  attacksOut: ObservedAttack[];
+  /** What we answered, with the rules that fired, when we kept a trace of it. */
+  negotiate?: DecisionTrace;
+  combat?: DecisionTrace;
+}
+
+export interface GameTimeline {
+  gameId: number;
+  playerId: number;
+  turns: TimelineTurn[];
+}
+
+function towerAt(snapshots: TowerSnapshot[], turn: number, playerId: number, us: boolean): TimelineTower | undefined {
+  const snapshot = snapshots.find((entry) => entry.turn === turn);
+  if (!snapshot) {
+    return undefined;
+  }
+  const { turn: _turn, ...state } = snapshot;
+  return { playerId, us, ...state };
+}
+
+/** Lays a game's memory and decision traces out turn by turn, oldest first. */
+export function buildTimeline(memory: GameMemory, traces: DecisionTrace[] = []): GameTimeline {
+  const turns = new Set(memory.ourSnapshots.map((snapshot) => snapshot.turn));
+  for (const opponent of memory.opponents.values()) {
+    opponent.snapshots.forEach((snapshot) => turns.add(snapshot.turn));
+  }
+  traces.forEach((trace) => turns.add(trace.turn));
+
+  return {
+    gameId: memory.gameId,
+    playerId: memory.playerId,
+    turns: [...turns]
+      .sort((a, b) => a - b)
+      .map((turn) => {
+        const towers = [
+          towerAt(memory.ourSnapshots, turn, memory.playerId, true),
+          ...[...memory.opponents.values()].map((opponent) => towerAt(opponent.snapshots, turn, opponent.playerId, false))
+        ].filter((tower): tower is TimelineTower => tower !== undefined);
+        const attacks = memory.attacks.filter((attack) => attack.turn === turn);
+        return {
+          turn,
+          towers,
+          proposed: memory.ourProposals.filter((proposal) => proposal.turn === turn),
+          received: memory.diplomacy.filter((proposal) => proposal.turn === turn),
+          attacksIn: attacks.filter((attack) => attack.targetId === memory.playerId),
+          attacksOut: attacks.filter((attack) => attack.attackerId === memory.playerId),
+          negotiate: traces.find((trace) => trace.turn === turn && trace.phase === 'negotiate'),
+          combat: traces.find((trace) => trace.turn === turn && trace.phase === 'combat')
+        };
+      })
+  };
+}
+
+/**
+ * Rebuilds a timeline from a replay recording by feeding it through fresh memory; traces carry
+ * no rules. Invalid calls add a trace of the fallback answer but no game state.
+ */
+export function timelineFromReplay(entries: ReplayEntry[]): GameTimeline | undefined {
+  const store = createGameMemoryStore({ ttlMs: Infinity });
+  const traces: DecisionTrace[] = [];
+  for (const entry of entries) {
+    // The bot never fed invalid payloads into memory either; only our answer is shown for them.
+    if (!isInvalidReplayEntry(entry)) {
+      if (entry.phase === 'negotiate') {
+        store.recordNegotiate(entry.request);
+        store.recordOurProposals(entry.request, entry.response as NegotiateResponseItem[]);
+      } else {
+        store.recordCombat(entry.request);
+      }
+    }
+    traces.push({
+      gameId: entry.gameId,
+      turn: entry.turn,
+      phase: entry.phase,
+      strategy: entry.strategy,
+      rules: [],
+      candidates: [],
+      actions: entry.response
+    });
+  }
+  const [gameId] = store.gameIds();
+  const memory = gameId !== undefined ? store.get(gameId) : undefined;
+  return memory && buildTimeline(memory, traces);
+}
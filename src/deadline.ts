@@ -0,0 +1,51 @@
+/** `late`: the answer came after the budget but is still used; only `timeout` and `error` fall back. */
+export type GuardOutcome = 'ok' | 'late' | 'timeout' | 'error';
+
+export interface GuardedResult<T> {
+  value: T;
+  outcome: GuardOutcome;
+  latencyMs: number;
+  /** Why the answer is late or the fallback was used, for every outcome but `ok`. */
+  error?: string;
+}
+
+const TIMED_OUT = Symbol('timed-out');
+
+/**
+ * Runs `primary` against a `budgetMs` deadline and answers with `fallback()` if it throws or
+ * has not answered when the budget runs out. Strategies are synchronous, so one that overruns
+ * cannot be interrupted: by the time the overrun shows, its answer is already computed and the
+ * time is spent either way, so it is kept and reported as `late` rather than swapped for a
+ * weaker fallback.
+ */
+export async function withDeadline<T>(
+  primary: () => T | PromiseLike<T>,
+  fallback: () => T,
+  budgetMs: number
+): Promise<GuardedResult<T>> {
+  const start = performance.now();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), budgetMs);
+  });
+  const answer = Promise.resolve().then(primary);
+  // A late answer may still reject after we have moved on; that must not surface as unhandled.
+  answer.catch(() => undefined);
+
+  try {
+    const value = await Promise.race([answer, timeout]);
+    const latencyMs = performance.now() - start;
+    if (value === TIMED_OUT) {
+      return { value: fallback(), outcome: 'timeout', latencyMs, error: `no answer within ${budgetMs}ms` };
+    }
+    if (latencyMs > budgetMs) {
+      return { value, outcome: 'late', latencyMs, error: `answered after ${latencyMs.toFixed(1)}ms of ${budgetMs}ms` };
+    }
+    return { value, outcome: 'ok', latencyMs };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { value: fallback(), outcome: 'error', latencyMs: performance.now() - start, error };
+  } finally {
+    clearTimeout(timer);
+  }
+}
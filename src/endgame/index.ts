@@ -0,0 +1,4 @@
+export { DEFAULT_RACE_RULES, assessDuel, bestKillPlan, turnsToKill } from './race';
+export type { DuelAssessment, DuelMode, Fighter, KillPlan, RaceRules } from './race';
+export { DEFAULT_ENDGAME_OPPONENTS, isEndgame, planEndgame, withEndgame } from './planner';
+export type { EndgamePlan } from './planner';
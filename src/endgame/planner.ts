@@ -0,0 +1,114 @@
+import type { CombatAction, CombatRequest, Tower } from '../types';
+import { MAX_LEVEL, resourcesPerTurn, upgradeCost } from '../types';
+import { estimateResources } from '../memory';
+import type { GameMemory } from '../memory';
+import type { Strategy, StrategyContext } from '../strategies/types';
+import { assessDuel } from './race';
+import type { DuelAssessment, DuelMode, Fighter, RaceRules } from './race';
+import { DEFAULT_RACE_RULES } from './race';
+
+/** Live enemies at or below which strategies wrapped by `withEndgame` hand off. */
+export const DEFAULT_ENDGAME_OPPONENTS = 1;
+
+export interface EndgamePlan {
+  targetId: number;
+  /** The target duel's verdict, downgraded to `defend` when another enemy would kill us first. */
+  mode: DuelMode;
+  assessment: DuelAssessment;
+  actions: CombatAction[];
+}
+
+/** What an enemy can spend this turn: its visible bank, our memory estimate, or at least its income. */
+function enemyFighter(enemy: Tower, memory?: GameMemory): Fighter {
+  const estimate = memory ? estimateResources(memory, enemy.playerId) : undefined;
+  return {
+    hp: enemy.hp,
+    armor: enemy.armor,
+    level: enemy.level,
+    resources: enemy.resources ?? estimate?.available ?? resourcesPerTurn(enemy.level)
+  };
+}
+
+export function isEndgame(request: CombatRequest, maxOpponents = DEFAULT_ENDGAME_OPPONENTS): boolean {
+  const live = request.enemyTowers.filter((enemy) => enemy.hp > 0).length;
+  return live > 0 && live <= maxOpponents;
+}
+
+/**
+ * Duels every live enemy separately, as if the others were busy, and targets the one we
+ * can kill soonest. Then plays the first turn of the verdict: send everything (all-in), buy
+ * the next upgrade and bank the rest (out-scale), or survive their best hit and grow (defend).
+ */
+export function planEndgame(
+  request: CombatRequest,
+  context?: StrategyContext,
+  rules: RaceRules = DEFAULT_RACE_RULES
+): EndgamePlan | undefined {
+  const resources = Math.max(0, Math.floor(request.playerTower.resources ?? 0));
+  const us: Fighter = { ...request.playerTower, resources };
+  const duels = request.enemyTowers
+    .filter((enemy) => enemy.hp > 0)
+    .map((enemy) => {
+      const them = enemyFighter(enemy, context?.memory);
+      return { enemy, them, assessment: assessDuel(us, them, rules) };
+    })
+    .sort((a, b) => a.assessment.ours.turns - b.assessment.ours.turns || a.enemy.hp - b.enemy.hp);
+  const duel = duels[0];
+  if (!duel) {
+    return undefined;
+  }
+
+  // Whoever can reach us fastest decides how hard we must defend.
+  const fastestThreat = duels.reduce((worst, d) => (d.assessment.theirs.turns < worst.assessment.theirs.turns ? d : worst));
+  const { enemy, assessment } = duel;
+  const mode = assessment.ours.turns < fastestThreat.assessment.theirs.turns ? assessment.mode : 'defend';
+  const actions: CombatAction[] = [];
+  const level = request.playerTower.level;
+  const price = upgradeCost(level);
+
+  if (mode === 'all-in') {
+    if (resources > 0) {
+      actions.push({ type: 'attack', targetId: enemy.playerId, troopCount: resources });
+    }
+  } else if (mode === 'out-scale') {
+    if (resources >= price && level < MAX_LEVEL) {
+      actions.push({ type: 'upgrade' });
+    }
+  } else {
+    // Losing the race: armor only what keeps us alive through their best hit, then bank for upgrades.
+    const biggestHit = Math.max(...duels.map((d) => d.them.resources));
+    const { hp, armor: ourArmor } = request.playerTower;
+    const armor = Math.min(resources, Math.max(0, biggestHit - ourArmor - hp + 1));
+    const left = resources - armor;
+    if (armor > 0) {
+      actions.push({ type: 'armor', amount: armor });
+    }
+    if (level >= MAX_LEVEL && left > 0) {
+      actions.push({ type: 'attack', targetId: enemy.playerId, troopCount: left });
+    } else if (left >= price) {
+      actions.push({ type: 'upgrade' });
+    }
+  }
+
+  context?.trace?.rule('endgame', {
+    mode,
+    targetId: enemy.playerId,
+    ourTurnsToKill: assessment.ours.turns,
+    ourUpgrades: assessment.ours.upgrades,
+    theirTurnsToKill: fastestThreat.assessment.theirs.turns
+  });
+  return { targetId: enemy.playerId, mode, assessment, actions };
+}
+
+/** Lets any strategy hand its combat turns to the endgame planner once few enough enemies are left. */
+export function withEndgame(strategy: Strategy, maxOpponents = DEFAULT_ENDGAME_OPPONENTS): Strategy {
+  return {
+    negotiate: strategy.negotiate,
+    combat: (request, context) => {
+      if (!isEndgame(request, maxOpponents)) {
+        return strategy.combat(request, context);
+      }
+      return planEndgame(request, context)?.actions ?? strategy.combat(request, context);
+    }
+  };
+}
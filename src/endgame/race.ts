@@ -0,0 +1,117 @@
+import { MAX_LEVEL, resourcesPerTurn, upgradeCost } from '../types';
+
+/** What the race math needs to know about one tower. */
+export interface Fighter {
+  hp: number;
+  armor: number;
+  level: number;
+  /** Resources available to spend this turn, income included. */
+  resources: number;
+}
+
+/** Search limits for the race math; the game mechanics themselves come from `../types`. */
+export interface RaceRules {
+  /** Turns looked ahead; kills further out count as never. */
+  horizon: number;
+  /** Most upgrades a plan may take before going all-in. */
+  maxUpgrades: number;
+}
+
+export const DEFAULT_RACE_RULES: RaceRules = {
+  horizon: 30,
+  maxUpgrades: 3
+};
+
+export interface KillPlan {
+  /** Upgrades bought, saving resources in between, before sending everything every turn. */
+  upgrades: number;
+  /** Turns until the defender falls, counting the current one as 1; `Infinity` past the horizon. */
+  turns: number;
+}
+
+export type DuelMode = 'all-in' | 'out-scale' | 'defend';
+
+export interface DuelAssessment {
+  mode: DuelMode;
+  ours: KillPlan;
+  theirs: KillPlan;
+}
+
+/**
+ * Turns for `attacker` to destroy `defender` if it upgrades `upgrades` times and then sends
+ * everything every turn, while the defender only takes hits. Follows the engine's order: income
+ * at turn start, damage to armor then hp, upgrades after damage.
+ */
+export function turnsToKill(
+  attacker: Fighter,
+  defender: Fighter,
+  upgrades: number,
+  rules: RaceRules = DEFAULT_RACE_RULES
+): number {
+  let resources = attacker.resources;
+  let level = attacker.level;
+  let upgradesLeft = Math.min(upgrades, MAX_LEVEL - attacker.level);
+  let { hp, armor } = defender;
+
+  for (let t = 0; t < rules.horizon; t++) {
+    if (t > 0) {
+      resources += resourcesPerTurn(level);
+    }
+
+    let levelUp = false;
+    if (upgradesLeft > 0) {
+      if (resources >= upgradeCost(level)) {
+        resources -= upgradeCost(level);
+        upgradesLeft -= 1;
+        levelUp = true;
+      }
+    } else {
+      const absorbed = Math.min(armor, resources);
+      armor -= absorbed;
+      hp -= resources - absorbed;
+      resources = 0;
+    }
+
+    if (hp <= 0) {
+      return t + 1;
+    }
+    if (levelUp) {
+      level += 1;
+    }
+  }
+  return Infinity;
+}
+
+/** Fastest kill over 0..`maxUpgrades` upgrades first; ties go to fewer upgrades. */
+export function bestKillPlan(
+  attacker: Fighter,
+  defender: Fighter,
+  rules: RaceRules = DEFAULT_RACE_RULES
+): KillPlan {
+  let best: KillPlan = { upgrades: 0, turns: turnsToKill(attacker, defender, 0, rules) };
+  const maxUpgrades = Math.min(rules.maxUpgrades, MAX_LEVEL - attacker.level);
+  for (let upgrades = 1; upgrades <= maxUpgrades; upgrades++) {
+    const turns = turnsToKill(attacker, defender, upgrades, rules);
+    if (turns < best.turns) {
+      best = { upgrades, turns };
+    }
+  }
+  return best;
+}
+
+/**
+ * Races both sides' fastest kills. We go for ours when it lands strictly first: all-in when it
+ * needs no upgrades, out-scale when it does. Otherwise we lose the race and must defend.
+ */
+export function assessDuel(
+  us: Fighter,
+  them: Fighter,
+  rules: RaceRules = DEFAULT_RACE_RULES
+): DuelAssessment {
+  const ours = bestKillPlan(us, them, rules);
+  const theirs = bestKillPlan(them, us, rules);
+  if (ours.turns < theirs.turns) {
+    return { mode: ours.upgrades > 0 ? 'out-scale' : 'all-in', ours, theirs };
+  }
+  return { mode: 'defend', ours, theirs };
+}
@@ -1,73 +1,175 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import type { NegotiateRequest, CombatRequest } from './types';
-import { getStrategy } from './strategies';
+import { isStrategyName, listStrategyNames, registerStrategyDefinitions } from './strategies';
 import type { StrategyName } from './strategies/types';
+import { DEFAULT_BOT_ID, createBotInstance, createBotRouter, parseBotConfigs, sendTurnResponse } from './bot';
+import type { BotConfig, BotInstance, ReplayOptions } from './bot';
+import { createBotMetrics } from './botMetrics';
+import { createDashboardRouter } from './dashboard';
+import { invalidReplayEntry } from './replay/recorder';
 
 const app = express();
 const PORT: number = process.env.PORT ? parseInt(process.env.PORT) : 8000;
 
 const BOT_NAME = process.env.BOT_NAME ?? 'Kingdom Wars Bot';
 const BOT_VERSION = '1.0';
-const ACTIVE_STRATEGY: StrategyName = 'armor-control';
-const strategy = getStrategy(ACTIVE_STRATEGY);
+const DEFAULT_STRATEGY: StrategyName = 'armor-control';
+/** A game counts as in progress while it has sent us a turn within this window. */
+const ACTIVE_GAME_WINDOW_MS = 60 * 1000;
+
+if (process.env.STRATEGY_DEFINITIONS_DIR) {
+  const registered = registerStrategyDefinitions(process.env.STRATEGY_DEFINITIONS_DIR);
+  console.log(`[KW-BOT] registered strategy definitions: ${registered.join(', ')}`);
+}
+
+function initialStrategy(): StrategyName {
+  const fromEnv = process.env.STRATEGY;
+  if (fromEnv === undefined || fromEnv === '') {
+    return DEFAULT_STRATEGY;
+  }
+  if (!isStrategyName(fromEnv)) {
+    console.error(`[KW-BOT] unknown STRATEGY "${fromEnv}" (known: ${listStrategyNames().join(', ')}), using ${DEFAULT_STRATEGY}`);
+    return DEFAULT_STRATEGY;
+  }
+  return fromEnv;
+}
+
+/** How long a strategy gets per turn: `TURN_BUDGET_MS`, or 1000; anything but a positive number is refused, as NaN would pass every turn as on time. */
+function turnBudgetMs(): number {
+  const raw = process.env.TURN_BUDGET_MS;
+  if (raw === undefined || raw === '') {
+    return 1000;
+  }
+  const budget = Number(raw);
+  if (!Number.isFinite(budget) || budget <= 0) {
+    throw new Error(`TURN_BUDGET_MS must be a positive number of milliseconds, got "${raw}"`);
+  }
+  return budget;
+}
+
+/** Replays of extra bots go to a subdirectory each, so bots sharing a game don't share a file. */
+function replayOptionsFor(botId: string): ReplayOptions | undefined {
+  if (!process.env.REPLAY_DIR) {
+    return undefined;
+  }
+  return {
+    dir: botId === DEFAULT_BOT_ID ? process.env.REPLAY_DIR : `${process.env.REPLAY_DIR}/${botId}`,
+    retentionDays: replayRetentionDays()
+  };
+}
+
+/** `REPLAY_RETENTION_DAYS`, or 7; anything but a positive number is refused rather than disabling pruning. */
+function replayRetentionDays(): number {
+  const raw = process.env.REPLAY_RETENTION_DAYS;
+  if (raw === undefined || raw === '') {
+    return 7;
+  }
+  const days = Number(raw);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(`REPLAY_RETENTION_DAYS must be a positive number of days, got "${raw}"`);
+  }
+  return days;
+}
+
+/** `BOTS` (a JSON array of `{id, name, strategy}`) adds bots served under `/bots/<id>/...` next to `/bots/default`. */
+function extraBotConfigs(): BotConfig[] {
+  if (!process.env.BOTS) {
+    return [];
+  }
+  try {
+    return parseBotConfigs(process.env.BOTS);
+  } catch (err) {
+    console.error(`[KW-BOT] ignoring BOTS: ${err instanceof Error ? err.message : err}`);
+    return [];
+  }
+}
+
+const defaultBot = createBotInstance(
+  { id: DEFAULT_BOT_ID, name: BOT_NAME, strategy: initialStrategy() },
+  replayOptionsFor(DEFAULT_BOT_ID)
+);
+const bots = new Map<string, BotInstance>([[DEFAULT_BOT_ID, defaultBot]]);
+for (const config of extraBotConfigs()) {
+  bots.set(config.id, createBotInstance(config, replayOptionsFor(config.id)));
+}
+
+const metrics = createBotMetrics(() =>
+  [...bots.values()].reduce(
+    (total, bot) =>
+      total +
+      bot.memoryStore
+        .gameIds()
+        .filter((gameId) => Date.now() - (bot.memoryStore.get(gameId)?.lastSeenAt ?? 0) < ACTIVE_GAME_WINDOW_MS).length,
+    0
+  )
+);
 
 app.use(express.json());
 app.use(cors());
 
-/** Log every request with [KW-BOT] prefix for the log collector. */
-app.use((req: Request, _res: Response, next: () => void) => {
-  console.log(`[KW-BOT] [strategy=${ACTIVE_STRATEGY}] ${req.method} ${req.path}`);
+/**
+ * Log every request with [KW-BOT] prefix for the log collector. Logged once the response
+ * is sent so the line names the strategy that actually answered (see `res.locals.strategy`)
+ * and, for turn routes, summarises its decision trace.
+ */
+app.use((req: Request, res: Response, next: () => void) => {
+  const startedAt = performance.now();
+  res.on('finish', () => {
+    // Route patterns, not raw paths, keep game ids out of metric labels.
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    metrics.request(route, res.locals.strategy ?? 'none', res.statusCode, (performance.now() - startedAt) / 1000);
+    const bot = bots.get(res.locals.bot) ?? defaultBot;
+    const strategyName: StrategyName = res.locals.strategy ?? bot.selector.getActive();
+    const trace = res.locals.traceSummary ? ` ${res.locals.traceSummary}` : '';
+    const latency = res.locals.latencyMs !== undefined ? ` latency=${res.locals.latencyMs.toFixed(1)}ms` : '';
+    console.log(`[KW-BOT] [strategy=${strategyName}] ${req.method} ${req.baseUrl ?? ''}${req.path}${latency}${trace}`);
+  });
   next();
 });
 
-app.get('/', (_req: Request, res: Response) => {
-  res.send('if err != nil rulez');
-});
-
 app.get('/healthz', (_req: Request, res: Response) => {
   res.json({ status: 'OK' });
 });
 
-app.get('/info', (_req: Request, res: Response) => {
-  res.json({
-    name: BOT_NAME,
-    strategy: ACTIVE_STRATEGY,
-    version: BOT_VERSION
-  });
+app.get('/metrics', (_req: Request, res: Response) => {
+  res.type('text/plain; version=0.0.4').send(metrics.registry.render());
 });
 
-app.post('/negotiate', (req: Request, res: Response) => {
-  try {
-    const body = req.body as NegotiateRequest;
-    if (!body || typeof body.gameId !== 'number' || !body.playerTower || !Array.isArray(body.enemyTowers)) {
-      res.json([]);
-      return;
-    }
-    const diplomacy = strategy.negotiate(body);
-    res.json(diplomacy);
-  } catch {
-    res.json([]);
-  }
+app.use(createDashboardRouter(bots, { activeWindowMs: ACTIVE_GAME_WINDOW_MS, adminToken: process.env.ADMIN_TOKEN }));
+
+app.get('/bots', (_req: Request, res: Response) => {
+  res.json({
+    bots: [...bots.values()].map((bot) => ({ id: bot.id, name: bot.name, strategy: bot.selector.getActive() }))
+  });
 });
 
-app.post('/combat', (req: Request, res: Response) => {
-  try {
-    const body = req.body as CombatRequest;
-    if (!body || typeof body.gameId !== 'number' || !body.playerTower || !Array.isArray(body.enemyTowers)) {
-      res.json([]);
-      return;
-    }
-    const actions = strategy.combat(body);
-    res.json(actions);
-  } catch {
-    res.json([]);
-  }
+const routerOptions = { version: BOT_VERSION, metrics, adminToken: process.env.ADMIN_TOKEN, turnBudgetMs: turnBudgetMs() };
+for (const bot of bots.values()) {
+  app.use(`/bots/${bot.id}`, createBotRouter(bot, routerOptions));
+}
+app.use('/bots/:botId', (req: Request, res: Response) => {
+  res.status(404).json({ error: `Unknown bot ${req.params.botId}`, known: [...bots.keys()] });
 });
+// Unprefixed routes are the default bot, as they were before several bots could be hosted.
+app.use(createBotRouter(defaultBot, routerOptions));
 
 // Global error handler (catches errors but doesn't prevent crash from throw)
 app.use((err: Error, req: Request, res: Response, _next: () => void) => {
   console.error('❌ Global error handler caught:', err.message);
+  // Unparseable turn payloads still get a safe empty answer instead of a 500.
+  const turnRoute = req.method === 'POST' ? /^(?:\/bots\/([^/]+))?\/(negotiate|combat)$/.exec(req.path) : null;
+  if (turnRoute) {
+    const issues = [{ path: '$', message: err.message }];
+    const bot = bots.get(turnRoute[1] ?? DEFAULT_BOT_ID);
+    // The bot id comes straight from the path; only hosted ids may become metric labels.
+    metrics.validationFailure(bot?.id ?? 'unknown', `/${turnRoute[2]}`);
+    // The JSON parser keeps the raw text on its errors; record it so the call can be replayed.
+    const raw = (err as Error & { body?: unknown }).body;
+    const phase = turnRoute[2] as 'negotiate' | 'combat';
+    bot?.replayRecorder?.record(invalidReplayEntry(phase, raw, issues, []));
+    sendTurnResponse(req, res, [], { kind: 'invalid-request', issues });
+    return;
+  }
   res.status(500).json({
     error: 'Internal Server Error',
     message: err.message
@@ -76,4 +178,7 @@ app.use((err: Error, req: Request, res: Response, _next: () => void) => {
 
 app.listen(PORT, () => {
   console.log(`Server started on port ${PORT}`);
+  if (bots.size > 1) {
+    console.log(`[KW-BOT] hosting bots: ${[...bots.keys()].join(', ')}`);
+  }
 });
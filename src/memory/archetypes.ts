@@ -0,0 +1,95 @@
+import { resourcesPerTurn } from '../types';
+import type { GameMemory } from './types';
+
+/** How an opponent plays: hoards armor, keeps attacking, or invests in levels. */
+export type Archetype = 'turtle' | 'rusher' | 'economy' | 'unknown';
+
+/** Turns of inferred spending we need before labelling anyone. */
+const MIN_TURNS_OBSERVED = 2;
+/** Share of income one use needs before it defines the archetype. */
+const DOMINANT_SHARE = 0.45;
+/** Attacking on at least this share of turns marks a rusher even with a smaller troop share. */
+const RUSH_ATTACK_RATE = 0.6;
+const RUSH_MIN_TROOP_SHARE = 0.3;
+
+export interface OpponentProfile {
+  playerId: number;
+  archetype: Archetype;
+  turnsObserved: number;
+  /** Shares of the income it earned while observed that went into each use, or stayed banked. */
+  armorShare: number;
+  troopShare: number;
+  upgradeShare: number;
+  bankShare: number;
+  /** Share of observed turns on which it attacked anyone. */
+  attackRate: number;
+  /** Average troops per attack, 0 if it never attacked. */
+  averageAttack: number;
+  /** First turn on which we saw it upgrade. */
+  firstUpgradeTurn?: number;
+}
+
+function archetypeOf(profile: Omit<OpponentProfile, 'archetype'>): Archetype {
+  if (profile.turnsObserved < MIN_TURNS_OBSERVED) {
+    return 'unknown';
+  }
+  const { armorShare, troopShare, upgradeShare, bankShare, attackRate } = profile;
+  const economyShare = upgradeShare + bankShare;
+  if (troopShare >= DOMINANT_SHARE || (attackRate >= RUSH_ATTACK_RATE && troopShare >= RUSH_MIN_TROOP_SHARE)) {
+    return 'rusher';
+  }
+  if (armorShare >= DOMINANT_SHARE && armorShare >= economyShare) {
+    return 'turtle';
+  }
+  if (economyShare >= DOMINANT_SHARE) {
+    return 'economy';
+  }
+  return 'unknown';
+}
+
+/**
+ * Labels an opponent from how it used its income so far (see `inferSpend`): mostly troops or
+ * frequent attacks make a rusher, mostly armor a turtle, mostly upgrades or savings an economy player.
+ */
+export function classifyOpponent(memory: GameMemory, playerId: number): OpponentProfile {
+  const opponent = memory.opponents.get(playerId);
+  const spend = opponent?.spend ?? [];
+  const totals = spend.reduce(
+    (sum, entry) => ({
+      armor: sum.armor + entry.armor,
+      troops: sum.troops + entry.troops,
+      upgrade: sum.upgrade + entry.upgrade
+    }),
+    { armor: 0, troops: 0, upgrade: 0 }
+  );
+  const income = spend.reduce((sum, entry) => {
+    const level = opponent?.snapshots.find((snapshot) => snapshot.turn === entry.turn)?.level ?? 1;
+    return sum + resourcesPerTurn(level);
+  }, 0);
+  const spent = totals.armor + totals.troops + totals.upgrade;
+  // Spending can exceed income when it started with savings or absorbed hits we missed.
+  const base = Math.max(income, spent);
+  const share = (value: number) => (base > 0 ? value / base : 0);
+  const attackTurns = spend.filter((entry) => entry.troops > 0).length;
+
+  const profile = {
+    playerId,
+    turnsObserved: spend.length,
+    armorShare: share(totals.armor),
+    troopShare: share(totals.troops),
+    upgradeShare: share(totals.upgrade),
+    bankShare: share(base - spent),
+    attackRate: spend.length > 0 ? attackTurns / spend.length : 0,
+    averageAttack: attackTurns > 0 ? totals.troops / attackTurns : 0,
+    firstUpgradeTurn: spend.find((entry) => entry.upgrade > 0)?.turn
+  };
+  return { ...profile, archetype: archetypeOf(profile) };
+}
+
+export function classifyOpponents(memory: GameMemory): Map<number, OpponentProfile> {
+  const profiles = new Map<number, OpponentProfile>();
+  for (const playerId of memory.opponents.keys()) {
+    profiles.set(playerId, classifyOpponent(memory, playerId));
+  }
+  return profiles;
+}
@@ -0,0 +1,10 @@
+export { createGameMemoryStore } from './store';
+export type { GameMemoryStore, GameMemoryStoreOptions } from './store';
+export { attacksOnUs, recentAttackerIds } from './queries';
+export type * from './types';
+export { classifyOpponent, classifyOpponents } from './archetypes';
+export type { Archetype, OpponentProfile } from './archetypes';
+export { buildReputations, chooseLeadPlotter, rankTrustedAllies } from './reputation';
+export type { Reputation } from './reputation';
+export { estimateAllResources, estimateResources, expectedKillCost } from './resources';
+export type { ResourceEstimate } from './resources';
@@ -0,0 +1,17 @@
+import type { GameMemory, ObservedAttack } from './types';
+
+/** All attacks on us, oldest first, optionally limited to turns >= `sinceTurn`. */
+export function attacksOnUs(memory: GameMemory, sinceTurn = 0): ObservedAttack[] {
+  return memory.attacks.filter((attack) => attack.targetId === memory.playerId && attack.turn >= sinceTurn);
+}
+
+/** Most recent attackers of ours, newest first, without duplicates. */
+export function recentAttackerIds(memory: GameMemory, sinceTurn = 0): number[] {
+  const ids: number[] = [];
+  for (const attack of attacksOnUs(memory, sinceTurn).reverse()) {
+    if (!ids.includes(attack.attackerId)) {
+      ids.push(attack.attackerId);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,79 @@
+import type { Tower } from '../types';
+import type { GameMemory } from './types';
+
+/** Only recent proposals against us count as active coordination. */
+const COORDINATION_WINDOW_TURNS = 3;
+
+export interface Reputation {
+  playerId: number;
+  /** Alliances offered to us that were followed by no attack on us. */
+  kept: number;
+  /** Alliances offered to us that were followed by an attack on us. */
+  broken: number;
+  /** Laplace-smoothed share of kept alliances: 0.5 with no history. */
+  trust: number;
+  betrayer: boolean;
+  /** Recent proposals naming us as target that this player made or was invited to. */
+  plotsAgainstUs: number;
+}
+
+/**
+ * Scores every opponent on how they honoured alliances offered to us. An alliance
+ * proposed on turn N is judged once turn N + 1 has resolved: kept unless they hit us on N or N + 1.
+ */
+export function buildReputations(memory: GameMemory): Map<number, Reputation> {
+  const reputations = new Map<number, Reputation>();
+  const lastResolvedTurn = memory.lastTurn - 1;
+
+  for (const opponent of memory.opponents.values()) {
+    const brokenTurns = new Set(opponent.brokenAlliances.map((broken) => broken.proposedOnTurn));
+    const judged = opponent.proposalsToUs.filter(
+      (proposal) => brokenTurns.has(proposal.turn) || proposal.turn + 1 <= lastResolvedTurn
+    );
+    const broken = judged.filter((proposal) => brokenTurns.has(proposal.turn)).length;
+    const kept = judged.length - broken;
+    const trust = (kept + 1) / (kept + broken + 2);
+
+    reputations.set(opponent.playerId, {
+      playerId: opponent.playerId,
+      kept,
+      broken,
+      trust,
+      betrayer: broken > 0 && trust < 0.5,
+      plotsAgainstUs: 0
+    });
+  }
+
+  const windowStart = memory.lastTurn - COORDINATION_WINDOW_TURNS + 1;
+  for (const proposal of memory.diplomacy) {
+    if (proposal.turn < windowStart || proposal.attackTargetId !== memory.playerId) {
+      continue;
+    }
+    for (const plotterId of [proposal.proposerId, proposal.allyId]) {
+      const reputation = reputations.get(plotterId);
+      if (reputation) {
+        reputation.plotsAgainstUs += 1;
+      }
+    }
+  }
+
+  return reputations;
+}
+
+/** Drops known betrayers and orders the rest by trust; ties keep the caller's order. */
+export function rankTrustedAllies(candidates: Tower[], reputations: Map<number, Reputation>): Tower[] {
+  const trustOf = (tower: Tower) => reputations.get(tower.playerId)?.trust ?? 0.5;
+  return candidates
+    .filter((tower) => !reputations.get(tower.playerId)?.betrayer)
+    .map((tower, index) => ({ tower, index }))
+    .sort((a, b) => trustOf(b.tower) - trustOf(a.tower) || a.index - b.index)
+    .map(({ tower }) => tower);
+}
+
+/** The live player most actively coordinating attacks on us, if anyone is. */
+export function chooseLeadPlotter(candidates: Tower[], reputations: Map<number, Reputation>): Tower | undefined {
+  const plotsOf = (tower: Tower) => reputations.get(tower.playerId)?.plotsAgainstUs ?? 0;
+  return candidates
+    .filter((tower) => plotsOf(tower) > 0)
+    .sort((a, b) => plotsOf(b) - plotsOf(a) || a.playerId - b.playerId)[0];
+}
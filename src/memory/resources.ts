@@ -0,0 +1,99 @@
+import { resourcesPerTurn } from '../types';
+import type { GameMemory, InferredSpend } from './types';
+
+/** Recent turns used to estimate an opponent's typical spending. */
+const SPEND_WINDOW_TURNS = 3;
+
+export interface ResourceEstimate {
+  playerId: number;
+  turn: number;
+  /** Income for the opponent's current level. */
+  income: number;
+  /** Resources the opponent most likely holds this turn, all of which it could send or turn into armor. */
+  available: number;
+  /** What it could hold next turn if it spent nothing now. */
+  nextTurnAvailable: number;
+  /** Expected armor and troops this turn, from its recent spending, capped by `available`. */
+  likelyArmor: number;
+  likelyTroops: number;
+  /**
+   * False when we joined after turn 1, so earlier savings are unknown and `available` is a lower bound,
+   * or when turns went unseen, so their spending is unknown and `available` assumes none.
+   */
+  exact: boolean;
+}
+
+function averageOf(spend: InferredSpend[], key: keyof Omit<InferredSpend, 'turn'>): number {
+  if (spend.length === 0) {
+    return 0;
+  }
+  return spend.reduce((sum, entry) => sum + entry[key], 0) / spend.length;
+}
+
+/**
+ * Reconstructs an opponent's bank from observed play: every turn it earns `resourcesPerTurn`
+ * for its level, including turns between snapshots we never saw, and spends what `inferSpend`
+ * recovered from its armor, level and attacks.
+ */
+export function estimateResources(memory: GameMemory, playerId: number): ResourceEstimate | undefined {
+  const opponent = memory.opponents.get(playerId);
+  const snapshots = opponent?.snapshots ?? [];
+  if (!opponent || snapshots.length === 0) {
+    return undefined;
+  }
+
+  const latest = snapshots[snapshots.length - 1];
+  let available = 0;
+  let gaps = false;
+  snapshots.forEach((snapshot, index) => {
+    available += resourcesPerTurn(snapshot.level);
+    const next = snapshots[index + 1];
+    if (!next) {
+      return;
+    }
+    const spend = opponent.spend.find((entry) => entry.turn === snapshot.turn);
+    if (spend) {
+      available -= spend.armor + spend.upgrade + spend.troops;
+    }
+    available = Math.max(0, available);
+    // Turns we did not see still paid income at the level last seen; what was spent on them is unknown.
+    const missed = next.turn - snapshot.turn - 1;
+    if (missed > 0) {
+      available += missed * resourcesPerTurn(snapshot.level);
+      gaps = true;
+    }
+  });
+
+  const recent = opponent.spend.slice(-SPEND_WINDOW_TURNS);
+  const income = resourcesPerTurn(latest.level);
+
+  return {
+    playerId,
+    turn: latest.turn,
+    income,
+    available,
+    nextTurnAvailable: available + income,
+    likelyArmor: Math.min(available, Math.round(averageOf(recent, 'armor'))),
+    likelyTroops: Math.min(available, Math.round(averageOf(recent, 'troops'))),
+    exact: snapshots[0].turn <= 1 && !gaps
+  };
+}
+
+export function estimateAllResources(memory: GameMemory): Map<number, ResourceEstimate> {
+  const estimates = new Map<number, ResourceEstimate>();
+  for (const playerId of memory.opponents.keys()) {
+    const estimate = estimateResources(memory, playerId);
+    if (estimate) {
+      estimates.set(playerId, estimate);
+    }
+  }
+  return estimates;
+}
+
+/** Troops needed to destroy `tower` this turn if it buys the armor it usually buys. */
+export function expectedKillCost(
+  tower: { playerId: number; hp: number; armor: number },
+  estimates?: Map<number, ResourceEstimate>
+): number {
+  return tower.hp + tower.armor + (estimates?.get(tower.playerId)?.likelyArmor ?? 0);
+}
@@ -0,0 +1,257 @@
+import type {
+  CombatActionAttack,
+  CombatRequest,
+  DiplomacyEntry,
+  NegotiateRequest,
+  NegotiateResponseItem,
+  Tower
+} from '../types';
+import { upgradeCost } from '../types';
+import type { GameMemory, OpponentHistory, TowerSnapshot } from './types';
+
+export interface GameMemoryStoreOptions {
+  /** Games not seen for this long are evicted. */
+  ttlMs?: number;
+  /** Oldest games are evicted once more than this many are tracked. */
+  maxGames?: number;
+  now?: () => number;
+  /** Called for every evicted game, so per-game state kept elsewhere can go with it. */
+  onEvict?: (gameId: number) => void;
+}
+
+export interface GameMemoryStore {
+  recordNegotiate: (request: NegotiateRequest) => GameMemory;
+  recordCombat: (request: CombatRequest) => GameMemory;
+  /** Remembers our /negotiate answer so the same turn's /combat can honour it. */
+  recordOurProposals: (request: NegotiateRequest, response: NegotiateResponseItem[]) => void;
+  get: (gameId: number) => GameMemory | undefined;
+  gameIds: () => number[];
+  evictExpired: () => number;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_GAMES = 200;
+
+function createOpponent(playerId: number): OpponentHistory {
+  return {
+    playerId,
+    snapshots: [],
+    attacksOnUs: [],
+    attacksMade: [],
+    proposalsToUs: [],
+    brokenAlliances: [],
+    spend: []
+  };
+}
+
+function opponentFor(memory: GameMemory, playerId: number): OpponentHistory {
+  let opponent = memory.opponents.get(playerId);
+  if (!opponent) {
+    opponent = createOpponent(playerId);
+    memory.opponents.set(playerId, opponent);
+  }
+  return opponent;
+}
+
+function pushSnapshot(snapshots: TowerSnapshot[], turn: number, tower: Tower): boolean {
+  if (snapshots.some((snapshot) => snapshot.turn === turn)) {
+    return false;
+  }
+  const snapshot: TowerSnapshot = { turn, hp: tower.hp, armor: tower.armor, level: tower.level };
+  if (tower.resources !== undefined) {
+    snapshot.resources = tower.resources;
+  }
+  snapshots.push(snapshot);
+  return true;
+}
+
+/** Attacks reported on turn N were resolved on turn N - 1; each turn's attacks are stored once. */
+function recordAttacks(memory: GameMemory, turn: number, attacks: CombatActionAttack[]): void {
+  const resolvedOn = turn - 1;
+  if (attacks.length === 0 || memory.attacks.some((attack) => attack.turn === resolvedOn)) {
+    return;
+  }
+
+  for (const attack of attacks) {
+    const observed = {
+      turn: resolvedOn,
+      attackerId: attack.playerId,
+      targetId: attack.action.targetId,
+      troopCount: attack.action.troopCount
+    };
+    memory.attacks.push(observed);
+    if (attack.playerId === memory.playerId) {
+      continue;
+    }
+
+    const attacker = opponentFor(memory, attack.playerId);
+    attacker.attacksMade.push(observed);
+    if (observed.targetId !== memory.playerId) {
+      continue;
+    }
+
+    attacker.attacksOnUs.push(observed);
+    // An attack on the turn of, or right after, an alliance proposal to us breaks it.
+    const proposal = [...attacker.proposalsToUs]
+      .reverse()
+      .find((p) => p.turn === resolvedOn || p.turn === resolvedOn - 1);
+    if (proposal) {
+      attacker.brokenAlliances.push({
+        proposedOnTurn: proposal.turn,
+        brokenOnTurn: resolvedOn,
+        troopCount: observed.troopCount
+      });
+    }
+  }
+}
+
+function recordDiplomacy(memory: GameMemory, turn: number, diplomacy: DiplomacyEntry[]): void {
+  if (diplomacy.length === 0 || memory.diplomacy.some((proposal) => proposal.turn === turn)) {
+    return;
+  }
+
+  for (const entry of diplomacy) {
+    const proposal = {
+      turn,
+      proposerId: entry.playerId,
+      allyId: entry.action.allyId,
+      attackTargetId: entry.action.attackTargetId
+    };
+    memory.diplomacy.push(proposal);
+    if (entry.action.allyId === memory.playerId && entry.playerId !== memory.playerId) {
+      opponentFor(memory, entry.playerId).proposalsToUs.push(proposal);
+    }
+  }
+}
+
+/**
+ * Reconstructs what an opponent spent on `turn` from its snapshots on `turn` and `turn + 1`:
+ * armor bought = armor change + armor absorbed, where absorbed = incoming troops - hp lost.
+ */
+function inferSpend(memory: GameMemory, opponent: OpponentHistory, turn: number): void {
+  const before = opponent.snapshots.find((snapshot) => snapshot.turn === turn);
+  const after = opponent.snapshots.find((snapshot) => snapshot.turn === turn + 1);
+  if (!before || !after || opponent.spend.some((spend) => spend.turn === turn)) {
+    return;
+  }
+
+  const incoming = memory.attacks
+    .filter((attack) => attack.turn === turn && attack.targetId === opponent.playerId)
+    .reduce((sum, attack) => sum + attack.troopCount, 0);
+  const hpLost = Math.max(0, before.hp - after.hp);
+  const absorbed = Math.max(0, incoming - hpLost);
+  const troops = opponent.attacksMade
+    .filter((attack) => attack.turn === turn)
+    .reduce((sum, attack) => sum + attack.troopCount, 0);
+
+  opponent.spend.push({
+    turn,
+    armor: Math.max(0, after.armor - before.armor + absorbed),
+    upgrade: after.level > before.level ? upgradeCost(before.level) : 0,
+    troops
+  });
+}
+
+/**
+ * Per-`gameId` memory fed by every /negotiate and /combat call, so strategies can reason
+ * about opponents beyond the single turn of `previousAttacks` they are sent.
+ */
+export function createGameMemoryStore(options: GameMemoryStoreOptions = {}): GameMemoryStore {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const maxGames = options.maxGames ?? DEFAULT_MAX_GAMES;
+  const now = options.now ?? Date.now;
+  const games = new Map<number, GameMemory>();
+
+  function evict(gameId: number): void {
+    games.delete(gameId);
+    options.onEvict?.(gameId);
+  }
+
+  function evictExpired(): number {
+    const cutoff = now() - ttlMs;
+    let evicted = 0;
+    for (const [gameId, memory] of games) {
+      if (memory.lastSeenAt < cutoff) {
+        evict(gameId);
+        evicted += 1;
+      }
+    }
+    const byAge = [...games.values()].sort((a, b) => a.lastSeenAt - b.lastSeenAt);
+    while (byAge.length > maxGames) {
+      evict(byAge.shift()!.gameId);
+      evicted += 1;
+    }
+    return evicted;
+  }
+
+  function touch(gameId: number, turn: number, playerTower: Tower, enemyTowers: Tower[]): GameMemory {
+    let memory = games.get(gameId);
+    if (!memory) {
+      memory = {
+        gameId,
+        playerId: playerTower.playerId,
+        lastTurn: turn,
+        lastSeenAt: now(),
+        ourSnapshots: [],
+        opponents: new Map(),
+        diplomacy: [],
+        ourProposals: [],
+        attacks: [],
+        delegates: new Map()
+      };
+      games.set(gameId, memory);
+      evictExpired();
+    }
+    memory.lastTurn = Math.max(memory.lastTurn, turn);
+    memory.lastSeenAt = now();
+    pushSnapshot(memory.ourSnapshots, turn, playerTower);
+    for (const enemy of enemyTowers) {
+      opponentFor(memory, enemy.playerId);
+    }
+    return memory;
+  }
+
+  function recordTowers(memory: GameMemory, turn: number, enemyTowers: Tower[]): void {
+    for (const enemy of enemyTowers) {
+      const opponent = opponentFor(memory, enemy.playerId);
+      if (pushSnapshot(opponent.snapshots, turn, enemy)) {
+        inferSpend(memory, opponent, turn - 1);
+      }
+    }
+  }
+
+  return {
+    recordNegotiate: (request) => {
+      const memory = touch(request.gameId, request.turn, request.playerTower, request.enemyTowers);
+      recordAttacks(memory, request.turn, request.combatActions);
+      recordTowers(memory, request.turn, request.enemyTowers);
+      return memory;
+    },
+    recordCombat: (request) => {
+      const memory = touch(request.gameId, request.turn, request.playerTower, request.enemyTowers);
+      recordAttacks(memory, request.turn, request.previousAttacks);
+      recordTowers(memory, request.turn, request.enemyTowers);
+      recordDiplomacy(memory, request.turn, request.diplomacy);
+      return memory;
+    },
+    recordOurProposals: (request, response) => {
+      const memory = games.get(request.gameId);
+      if (!memory) {
+        return;
+      }
+      // A retried /negotiate replaces what we answered the first time.
+      memory.ourProposals = memory.ourProposals.filter((proposal) => proposal.turn !== request.turn);
+      for (const item of response) {
+        memory.ourProposals.push({
+          turn: request.turn,
+          proposerId: memory.playerId,
+          allyId: item.allyId,
+          attackTargetId: item.attackTargetId
+        });
+      }
+    },
+    get: (gameId) => games.get(gameId),
+    gameIds: () => [...games.keys()],
+    evictExpired
+  };
+}
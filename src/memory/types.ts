@@ -0,0 +1,75 @@
+import type { CounterStrategyName } from '../strategies/meta';
+
+export interface TowerSnapshot {
+  turn: number;
+  hp: number;
+  armor: number;
+  level: number;
+  /** Only when the engine reported it: always for our tower, rarely for enemies. */
+  resources?: number;
+}
+
+export interface ObservedAttack {
+  /** Turn on which the attack was resolved (one before the request that reported it). */
+  turn: number;
+  attackerId: number;
+  targetId: number;
+  troopCount: number;
+}
+
+export interface AllianceProposal {
+  turn: number;
+  proposerId: number;
+  allyId: number;
+  attackTargetId?: number;
+}
+
+export interface BrokenAlliance {
+  /** Turn the alliance with us was proposed. */
+  proposedOnTurn: number;
+  /** Turn the proposer attacked us anyway. */
+  brokenOnTurn: number;
+  troopCount: number;
+}
+
+/** Resources an opponent spent on one turn, reconstructed from its tower changes and attacks. */
+export interface InferredSpend {
+  turn: number;
+  armor: number;
+  upgrade: number;
+  troops: number;
+}
+
+export interface OpponentHistory {
+  playerId: number;
+  snapshots: TowerSnapshot[];
+  attacksOnUs: ObservedAttack[];
+  attacksMade: ObservedAttack[];
+  proposalsToUs: AllianceProposal[];
+  brokenAlliances: BrokenAlliance[];
+  spend: InferredSpend[];
+}
+
+export interface DelegatePick {
+  strategy: CounterStrategyName;
+  /** Why it was picked, such as the archetype it counters. */
+  reason: string;
+}
+
+export interface GameMemory {
+  gameId: number;
+  playerId: number;
+  /** Latest turn seen on either /negotiate or /combat. */
+  lastTurn: number;
+  lastSeenAt: number;
+  ourSnapshots: TowerSnapshot[];
+  opponents: Map<number, OpponentHistory>;
+  /** Every diplomacy entry delivered to us, oldest first. */
+  diplomacy: AllianceProposal[];
+  /** What we proposed ourselves in /negotiate, oldest first; the engine never echoes it back. */
+  ourProposals: AllianceProposal[];
+  /** Every attack we were told about, oldest first. */
+  attacks: ObservedAttack[];
+  /** Strategy a delegating strategy picked, by turn, so both calls of a turn go to the same one. */
+  delegates: Map<number, DelegatePick>;
+}
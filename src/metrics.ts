@@ -0,0 +1,127 @@
+export type MetricLabels = Record<string, string>;
+
+/** Upper bounds (seconds) of latency histogram buckets; `+Inf` is added when rendering. */
+export const LATENCY_BUCKETS_SECONDS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+export interface Counter {
+  inc: (labels?: MetricLabels, by?: number) => void;
+}
+
+export interface Histogram {
+  observe: (labels: MetricLabels, value: number) => void;
+}
+
+export interface MetricsRegistry {
+  counter: (name: string, help: string) => Counter;
+  histogram: (name: string, help: string, buckets?: number[]) => Histogram;
+  /** A value read fresh on every scrape, e.g. the number of games we are tracking. */
+  gauge: (name: string, help: string, read: () => number) => void;
+  /** Every metric in the Prometheus text exposition format. */
+  render: () => string;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  /** Non-cumulative count per bucket bound; made cumulative when rendering. */
+  buckets: number[];
+  count: number;
+  sum: number;
+}
+
+type Metric =
+  | { type: 'counter'; help: string; series: Map<string, { labels: MetricLabels; value: number }> }
+  | { type: 'histogram'; help: string; bounds: number[]; series: Map<string, HistogramSeries> }
+  | { type: 'gauge'; help: string; read: () => number };
+
+function seriesKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(',');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function renderMetric(name: string, metric: Metric): string[] {
+  const lines = [`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`];
+  if (metric.type === 'gauge') {
+    lines.push(`${name} ${metric.read()}`);
+    return lines;
+  }
+  if (metric.type === 'counter') {
+    for (const { labels, value } of metric.series.values()) {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+
+  for (const series of metric.series.values()) {
+    let cumulative = 0;
+    metric.bounds.forEach((bound, index) => {
+      cumulative += series.buckets[index];
+      lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${cumulative}`);
+    });
+    lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`);
+    lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+  }
+  return lines;
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics = new Map<string, Metric>();
+
+  function define<T extends Metric>(name: string, metric: T): T {
+    if (metrics.has(name)) {
+      throw new Error(`Metric ${name} is already defined`);
+    }
+    metrics.set(name, metric);
+    return metric;
+  }
+
+  return {
+    counter(name, help) {
+      const metric = define(name, { type: 'counter', help, series: new Map() });
+      return {
+        inc(labels = {}, by = 1) {
+          const key = seriesKey(labels);
+          const entry = metric.series.get(key) ?? { labels, value: 0 };
+          entry.value += by;
+          metric.series.set(key, entry);
+        }
+      };
+    },
+
+    histogram(name, help, buckets = LATENCY_BUCKETS_SECONDS) {
+      const metric = define(name, { type: 'histogram', help, bounds: buckets, series: new Map() });
+      return {
+        observe(labels, value) {
+          const key = seriesKey(labels);
+          const entry = metric.series.get(key) ?? { labels, buckets: buckets.map(() => 0), count: 0, sum: 0 };
+          metric.series.set(key, entry);
+          const bucket = buckets.findIndex((bound) => value <= bound);
+          if (bucket >= 0) {
+            entry.buckets[bucket] += 1;
+          }
+          entry.count += 1;
+          entry.sum += value;
+        }
+      };
+    },
+
+    gauge(name, help, read) {
+      define(name, { type: 'gauge', help, read });
+    },
+
+    render() {
+      return `${[...metrics].flatMap(([name, metric]) => renderMetric(name, metric)).join('\n')}\n`;
+    }
+  };
+}
@@ -0,0 +1,155 @@
+import type { CombatAction, CombatRequest, NegotiateRequest, NegotiateResponseItem, Tower } from '../types';
+import { resourcesPerTurn } from '../types';
+import { buildReputations, estimateResources, expectedKillCost } from '../memory';
+import type { GameMemory, Reputation } from '../memory';
+import type { Strategy, StrategyContext } from '../strategies/types';
+
+/** Most allies we invite to one focus-fire kill. */
+export const MAX_FOCUS_ALLIES = 2;
+
+export interface FocusFirePlan {
+  targetId: number;
+  allyIds: number[];
+  /** Troops the kill takes: hp, armor and the armor the target usually buys. */
+  needed: number;
+  ourTroops: number;
+  /** Troops we expect the invited allies to send. */
+  allyTroops: number;
+}
+
+/** Troops a prospective ally would bring: what it usually sends, or half its income before we have seen it spend. */
+function estimatedAllyTroops(ally: Tower, memory?: GameMemory): number {
+  const seenSpending = (memory?.opponents.get(ally.playerId)?.spend.length ?? 0) > 0;
+  const estimate = memory && seenSpending ? estimateResources(memory, ally.playerId) : undefined;
+  return estimate?.likelyTroops ?? Math.floor(resourcesPerTurn(ally.level) / 2);
+}
+
+function killCost(target: Tower, memory?: GameMemory): number {
+  const estimate = memory ? estimateResources(memory, target.playerId) : undefined;
+  return expectedKillCost(target, estimate ? new Map([[target.playerId, estimate]]) : undefined);
+}
+
+/** Allies worth inviting: not the target, not a known betrayer, not plotting against us. */
+function eligibleAllies(enemies: Tower[], targetId: number, reputations?: Map<number, Reputation>): Tower[] {
+  return enemies.filter((enemy) => {
+    const reputation = reputations?.get(enemy.playerId);
+    return enemy.playerId !== targetId && !reputation?.betrayer && !(reputation && reputation.plotsAgainstUs > 0);
+  });
+}
+
+/**
+ * Finds an enemy we cannot kill alone but could together with up to `MAX_FOCUS_ALLIES`
+ * allies, inviting the biggest hitters first. Prefers the highest level, then the cheapest kill.
+ */
+export function planFocusFire(request: NegotiateRequest, memory?: GameMemory): FocusFirePlan | undefined {
+  const ourTroops = Math.max(0, Math.floor(request.playerTower.resources ?? 0));
+  const liveEnemies = request.enemyTowers.filter((enemy) => enemy.hp > 0);
+  if (ourTroops <= 0 || liveEnemies.length < 2) {
+    return undefined;
+  }
+
+  const reputations = memory ? buildReputations(memory) : undefined;
+  const plans: FocusFirePlan[] = [];
+  for (const target of liveEnemies) {
+    const needed = killCost(target, memory);
+    if (needed <= ourTroops) {
+      continue;
+    }
+
+    const allies = eligibleAllies(liveEnemies, target.playerId, reputations)
+      .map((ally) => ({ ally, troops: estimatedAllyTroops(ally, memory) }))
+      .filter(({ troops }) => troops > 0)
+      .sort((a, b) => b.troops - a.troops || a.ally.playerId - b.ally.playerId);
+    const allyIds: number[] = [];
+    let allyTroops = 0;
+    for (const { ally, troops } of allies) {
+      if (ourTroops + allyTroops >= needed || allyIds.length >= MAX_FOCUS_ALLIES) {
+        break;
+      }
+      allyIds.push(ally.playerId);
+      allyTroops += troops;
+    }
+    if (ourTroops + allyTroops >= needed) {
+      plans.push({ targetId: target.playerId, allyIds, needed, ourTroops, allyTroops });
+    }
+  }
+
+  const levelOf = (plan: FocusFirePlan) => liveEnemies.find((enemy) => enemy.playerId === plan.targetId)?.level ?? 0;
+  return plans.sort((a, b) => levelOf(b) - levelOf(a) || a.needed - b.needed || a.targetId - b.targetId)[0];
+}
+
+/**
+ * Troops this turn's combat owes to a focus-fire plan we proposed in negotiation: our share
+ * of the kill after the expected troops of the invited allies that took it up, or undefined
+ * when no such plan stands. Only allies whose own `diplomacy` entry names us as ally against
+ * the same target count; silence or a different target is a refusal.
+ */
+export function focusFireCommitment(
+  request: CombatRequest,
+  memory: GameMemory
+): { targetId: number; troops: number; allyIds: number[] } | undefined {
+  const proposals = memory.ourProposals.filter((proposal) => proposal.turn === request.turn);
+  const targetId = proposals.find((proposal) => proposal.attackTargetId !== undefined)?.attackTargetId;
+  const target = request.enemyTowers.find((enemy) => enemy.playerId === targetId && enemy.hp > 0);
+  if (!target) {
+    return undefined;
+  }
+
+  const myId = request.playerTower.playerId;
+  const invitedIds = proposals.filter((proposal) => proposal.attackTargetId === target.playerId).map((p) => p.allyId);
+  const allyIds = invitedIds.filter((allyId) =>
+    request.diplomacy.some(
+      (entry) => entry.playerId === allyId && entry.action.allyId === myId && entry.action.attackTargetId === target.playerId
+    )
+  );
+  if (allyIds.length === 0) {
+    return undefined;
+  }
+  const liveAllies = request.enemyTowers.filter((enemy) => enemy.hp > 0 && allyIds.includes(enemy.playerId));
+  const allyTroops = liveAllies.reduce((sum, ally) => sum + estimatedAllyTroops(ally, memory), 0);
+  const resources = Math.max(0, Math.floor(request.playerTower.resources ?? 0));
+  const needed = killCost(target, memory);
+  if (resources + allyTroops < needed) {
+    return undefined;
+  }
+  return { targetId: target.playerId, troops: Math.min(resources, needed - allyTroops), allyIds };
+}
+
+function mergeAttack(actions: CombatAction[], targetId: number, troops: number): CombatAction[] {
+  const existing = actions.find((action) => action.type === 'attack' && action.targetId === targetId);
+  if (!existing) {
+    return [{ type: 'attack', targetId, troopCount: troops }, ...actions];
+  }
+  return actions.map((action) =>
+    action === existing && action.type === 'attack' ? { ...action, troopCount: action.troopCount + troops } : action
+  );
+}
+
+/**
+ * Lets any strategy propose focus-fire kills in negotiation and honour them in combat: the
+ * committed troops go out first and the wrapped strategy plans the rest of the turn.
+ * Needs game memory to remember the proposal between the two calls; without it the strategy runs unchanged.
+ */
+export function withFocusFire(strategy: Strategy): Strategy {
+  return {
+    negotiate: (request, context?: StrategyContext): NegotiateResponseItem[] => {
+      const plan = context?.memory ? planFocusFire(request, context.memory) : undefined;
+      if (!plan) {
+        return strategy.negotiate(request, context);
+      }
+      context?.trace?.rule('focus-fire', { ...plan });
+      return plan.allyIds.map((allyId) => ({ allyId, attackTargetId: plan.targetId }));
+    },
+    combat: (request, context?: StrategyContext): CombatAction[] => {
+      const commitment = context?.memory ? focusFireCommitment(request, context.memory) : undefined;
+      if (!commitment || commitment.troops <= 0) {
+        return strategy.combat(request, context);
+      }
+
+      context?.trace?.rule('honour-focus-fire', { ...commitment });
+      const resources = Math.max(0, Math.floor(request.playerTower.resources ?? 0)) - commitment.troops;
+      const rest = strategy.combat({ ...request, playerTower: { ...request.playerTower, resources } }, context);
+      return mergeAttack(rest, commitment.targetId, commitment.troops);
+    }
+  };
+}
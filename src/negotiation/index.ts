@@ -0,0 +1,2 @@
+export { MAX_FOCUS_ALLIES, focusFireCommitment, planFocusFire, withFocusFire } from './focusFire';
+export type { FocusFirePlan } from './focusFire';
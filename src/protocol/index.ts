@@ -0,0 +1,77 @@
+import type { IncomingHttpHeaders } from 'http';
+import { protocolV1 } from './v1';
+import { protocolV2 } from './v2';
+import type { ProtocolAdapter } from './types';
+
+export type { NormalizedPayload, ProtocolAdapter } from './types';
+
+/** Header an engine may send, and we echo back, naming the protocol version of a turn. */
+export const PROTOCOL_VERSION_HEADER = 'x-protocol-version';
+
+/** Payloads that name no version are from the original engine. */
+export const DEFAULT_PROTOCOL_VERSION = '1.0';
+
+/** Adapters by version, oldest first. */
+const ADAPTERS: ProtocolAdapter[] = [protocolV1, protocolV2];
+
+/** Versions announced on /info. 2.0 is understood when asked for, but no engine speaks it yet. */
+export const SUPPORTED_PROTOCOL_VERSIONS = [protocolV1.version];
+
+export interface DetectedProtocol {
+  /** The version the engine asked for, as sent; the default when it named none. */
+  requested: string;
+  adapter: ProtocolAdapter;
+  /** Set when we answer with a different version than the one requested. */
+  note?: string;
+}
+
+function parseVersion(version: string): [number, number] | undefined {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(version.trim());
+  return match ? [Number(match[1]), Number(match[2] ?? 0)] : undefined;
+}
+
+/** `protocolVersion` or `version` in the body wins over the header. */
+function requestedVersion(headers: IncomingHttpHeaders, body: unknown): string | undefined {
+  if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+    const { protocolVersion, version } = body as Record<string, unknown>;
+    const fromBody = protocolVersion ?? version;
+    if (typeof fromBody === 'string' || typeof fromBody === 'number') {
+      return String(fromBody);
+    }
+  }
+  const header = headers[PROTOCOL_VERSION_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Picks the adapter for a turn. An exact match wins; within a major version the newest adapter
+ * not newer than the request is used, since minor releases only add fields. Anything else is
+ * answered best-effort with the default version, and the note says so.
+ */
+export function detectProtocol(headers: IncomingHttpHeaders, body: unknown): DetectedProtocol {
+  const requested = requestedVersion(headers, body) ?? DEFAULT_PROTOCOL_VERSION;
+  const exact = ADAPTERS.find((adapter) => adapter.version === requested);
+  if (exact) {
+    return { requested, adapter: exact };
+  }
+
+  const parsed = parseVersion(requested);
+  if (!parsed) {
+    const adapter = getProtocolAdapter(DEFAULT_PROTOCOL_VERSION)!;
+    return { requested, adapter, note: `unreadable protocol version "${requested}", answering as ${adapter.version}` };
+  }
+  const [major, minor] = parsed;
+  const sameMajor = ADAPTERS.filter((adapter) => {
+    const [adapterMajor, adapterMinor] = parseVersion(adapter.version)!;
+    return adapterMajor === major && adapterMinor <= minor;
+  });
+  if (sameMajor.length > 0) {
+    return { requested, adapter: sameMajor[sameMajor.length - 1] };
+  }
+  const adapter = getProtocolAdapter(DEFAULT_PROTOCOL_VERSION)!;
+  return { requested, adapter, note: `unsupported protocol version ${requested}, answering as ${adapter.version}` };
+}
+
+export function getProtocolAdapter(version: string): ProtocolAdapter | undefined {
+  return ADAPTERS.find((adapter) => adapter.version === version);
+}
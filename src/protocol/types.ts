@@ -0,0 +1,16 @@
+import type { CombatAction, NegotiateResponseItem } from '../types';
+
+/** A request body rewritten into the internal shape, with what was dropped or guessed along the way. */
+export interface NormalizedPayload {
+  body: unknown;
+  notes: string[];
+}
+
+/** Reads one engine protocol version's requests into our types and writes our answers back in its shape. */
+export interface ProtocolAdapter {
+  version: string;
+  normalizeNegotiate(raw: unknown): NormalizedPayload;
+  normalizeCombat(raw: unknown): NormalizedPayload;
+  serializeNegotiate(items: NegotiateResponseItem[]): unknown[];
+  serializeCombat(actions: CombatAction[]): unknown[];
+}
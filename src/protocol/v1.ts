@@ -0,0 +1,117 @@
+import type { CombatAction, NegotiateResponseItem } from '../types';
+import type { NormalizedPayload, ProtocolAdapter } from './types';
+
+const TOWER_FIELDS = ['playerId', 'hp', 'armor', 'level', 'resources'];
+const ENVELOPE_FIELDS = ['gameId', 'turn', 'playerTower', 'enemyTowers'];
+/** Fields that only say which protocol a payload speaks; read by detection, not by strategies. */
+const VERSION_FIELDS = ['protocolVersion', 'version'];
+const ACTION_TYPES: CombatAction['type'][] = ['armor', 'attack', 'upgrade'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copies `fields` from `value` and notes any others, except the `expected` ones we drop quietly.
+ * Non-objects pass through untouched so validation reports them.
+ */
+function pick(value: unknown, fields: string[], path: string, notes: string[], expected: string[] = []): unknown {
+  if (!isObject(value)) {
+    return value;
+  }
+  const picked: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (fields.includes(key)) {
+      picked[key] = field;
+    } else if (!expected.includes(key)) {
+      notes.push(`ignored unknown field ${path}.${key}`);
+    }
+  }
+  return picked;
+}
+
+function mapArray(value: unknown, path: string, map: (entry: unknown, path: string) => unknown): unknown {
+  if (!Array.isArray(value)) {
+    return value;
+  }
+  return value.map((entry) => map(entry, `${path}[]`)).filter((entry) => entry !== undefined);
+}
+
+/** Picks the turn envelope plus `lists`, with every tower reduced to the fields we know. */
+function normalizeEnvelope(raw: Record<string, unknown>, lists: string[], notes: string[]): Record<string, unknown> {
+  const body = pick(raw, [...ENVELOPE_FIELDS, ...lists], '$', notes, VERSION_FIELDS) as Record<string, unknown>;
+  body.playerTower = pick(body.playerTower, TOWER_FIELDS, 'playerTower', notes);
+  body.enemyTowers = mapArray(body.enemyTowers, 'enemyTowers', (tower, at) => pick(tower, TOWER_FIELDS, at, notes));
+  return body;
+}
+
+/** Keeps attacks; drops entries a newer engine reports with another `action.type`, since we cannot read them. */
+function normalizeAttacks(value: unknown, path: string, notes: string[]): unknown {
+  return mapArray(value, path, (entry, at) => {
+    const action = isObject(entry) ? entry.action : undefined;
+    if (isObject(action) && action.type !== undefined && action.type !== 'attack') {
+      notes.push(`dropped ${at}: unsupported action type ${String(action.type)}`);
+      return undefined;
+    }
+    const picked = pick(entry, ['playerId', 'action'], at, notes);
+    return isObject(picked) ? { ...picked, action: pick(action, ['targetId', 'troopCount'], `${at}.action`, notes, ['type']) } : picked;
+  });
+}
+
+function normalizeDiplomacy(value: unknown, notes: string[]): unknown {
+  return mapArray(value, 'diplomacy', (entry, at) => {
+    const picked = pick(entry, ['playerId', 'action'], at, notes);
+    return isObject(picked) ? { ...picked, action: pick(picked.action, ['allyId', 'attackTargetId'], `${at}.action`, notes) } : picked;
+  });
+}
+
+/**
+ * Protocol 1.0, the engine's original shape. Requests are read leniently so a newer 1.x engine
+ * can add fields and action kinds without breaking us: unknown fields are dropped, and attack
+ * lists lose entries of other action types. Responses carry only 1.0 fields and action types.
+ */
+export const protocolV1: ProtocolAdapter = {
+  version: '1.0',
+
+  normalizeNegotiate(raw): NormalizedPayload {
+    const notes: string[] = [];
+    if (!isObject(raw)) {
+      return { body: raw, notes };
+    }
+    const body = normalizeEnvelope(raw, ['combatActions'], notes);
+    body.combatActions = normalizeAttacks(body.combatActions, 'combatActions', notes);
+    return { body, notes };
+  },
+
+  normalizeCombat(raw): NormalizedPayload {
+    const notes: string[] = [];
+    if (!isObject(raw)) {
+      return { body: raw, notes };
+    }
+    const body = normalizeEnvelope(raw, ['diplomacy', 'previousAttacks'], notes);
+    body.diplomacy = normalizeDiplomacy(body.diplomacy, notes);
+    body.previousAttacks = normalizeAttacks(body.previousAttacks, 'previousAttacks', notes);
+    return { body, notes };
+  },
+
+  serializeNegotiate(items: NegotiateResponseItem[]): unknown[] {
+    return items.map((item) =>
+      item.attackTargetId === undefined ? { allyId: item.allyId } : { allyId: item.allyId, attackTargetId: item.attackTargetId }
+    );
+  },
+
+  serializeCombat(actions: CombatAction[]): unknown[] {
+    return actions
+      .filter((action) => ACTION_TYPES.includes(action.type))
+      .map((action) => {
+        switch (action.type) {
+          case 'armor':
+            return { type: 'armor', amount: action.amount };
+          case 'attack':
+            return { type: 'attack', targetId: action.targetId, troopCount: action.troopCount };
+          case 'upgrade':
+            return { type: 'upgrade' };
+        }
+      });
+  }
+};
@@ -0,0 +1,62 @@
+import type { CombatAction, NegotiateResponseItem } from '../types';
+import type { NormalizedPayload, ProtocolAdapter } from './types';
+import { protocolV1 } from './v1';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Renames `from` to `to` on the `action` of every entry in `list`; anything else is left for 1.0 to read. */
+function renameActionField(list: unknown, from: string, to: string): unknown {
+  if (!Array.isArray(list)) {
+    return list;
+  }
+  return list.map((entry) => {
+    if (!isObject(entry) || !isObject(entry.action) || !(from in entry.action)) {
+      return entry;
+    }
+    const { [from]: value, ...rest } = entry.action;
+    return { ...entry, action: { ...rest, [to]: value } };
+  });
+}
+
+function renameListFields(raw: unknown, lists: string[]): unknown {
+  if (!isObject(raw)) {
+    return raw;
+  }
+  const renamed = { ...raw };
+  for (const list of lists) {
+    renamed[list] = renameActionField(raw[list], 'troops', 'troopCount');
+  }
+  return renamed;
+}
+
+/**
+ * Protocol 2.0: 1.0 with attacks counting `troops` instead of `troopCount`, in the attacks we
+ * are told about and the ones we answer with alike. Everything else reads and writes as 1.0.
+ */
+export const protocolV2: ProtocolAdapter = {
+  version: '2.0',
+
+  normalizeNegotiate(raw): NormalizedPayload {
+    return protocolV1.normalizeNegotiate(renameListFields(raw, ['combatActions']));
+  },
+
+  normalizeCombat(raw): NormalizedPayload {
+    return protocolV1.normalizeCombat(renameListFields(raw, ['previousAttacks']));
+  },
+
+  serializeNegotiate(items: NegotiateResponseItem[]): unknown[] {
+    return protocolV1.serializeNegotiate(items);
+  },
+
+  serializeCombat(actions: CombatAction[]): unknown[] {
+    return protocolV1.serializeCombat(actions).map((action) => {
+      if (!isObject(action) || action.type !== 'attack') {
+        return action;
+      }
+      const { troopCount, ...rest } = action;
+      return { ...rest, troops: troopCount };
+    });
+  }
+};
@@ -0,0 +1,41 @@
+/** Returns a float in [0, 1), like `Math.random`. */
+export type Rng = () => number;
+
+/** Small deterministic PRNG (mulberry32); the same seed always yields the same sequence. */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Mixes several integers into one 32-bit seed; order matters. */
+export function hashSeed(...parts: number[]): number {
+  let hash = 0x811c9dc5;
+  for (const part of parts) {
+    hash = Math.imul(hash ^ (part | 0), 0x01000193);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Default randomness for a strategy decision: seeded from the game, turn and our player,
+ * so the same request always gets the same answer. `salt` lets tests and simulations vary it.
+ */
+export function turnRng(request: { gameId: number; turn: number; playerTower: { playerId: number } }, salt = 0): Rng {
+  return createRng(hashSeed(salt, request.gameId, request.turn, request.playerTower.playerId));
+}
+
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
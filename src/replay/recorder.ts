@@ -0,0 +1,133 @@
+import { appendFile, mkdir, readdir, readFile, stat, unlink } from 'fs/promises';
+import path from 'path';
+import type { CombatRequest, NegotiateRequest } from '../types';
+import type { ValidationIssue } from '../validation';
+
+interface ReplayEntryBase {
+  gameId: number;
+  turn: number;
+  /** Strategy that answered the call. */
+  strategy: string;
+  /** ISO timestamp of the call. */
+  at: string;
+  /** Exactly what we sent back to the engine. */
+  response: unknown[];
+}
+
+/** A call whose payload failed validation: the body exactly as received, and why it failed. */
+export type InvalidReplayEntry = ReplayEntryBase & {
+  phase: 'negotiate' | 'combat';
+  invalid: true;
+  request: unknown;
+  issues: ValidationIssue[];
+};
+
+export type ReplayEntry =
+  | (ReplayEntryBase & { phase: 'negotiate'; request: NegotiateRequest })
+  | (ReplayEntryBase & { phase: 'combat'; request: CombatRequest })
+  | InvalidReplayEntry;
+
+/** Game id invalid calls are filed under when their payload has no usable one. */
+export const UNKNOWN_GAME_ID = 0;
+
+export interface ReplayRecorderOptions {
+  dir: string;
+  /** Recordings whose last write is older than this are deleted. */
+  retentionDays: number;
+}
+
+export interface ReplayRecorder {
+  record: (entry: ReplayEntry) => void;
+  /** Resolves once every pending write has finished. */
+  flush: () => Promise<void>;
+  pruneExpired: () => Promise<number>;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function isInvalidReplayEntry(entry: ReplayEntry): entry is InvalidReplayEntry {
+  return 'invalid' in entry && entry.invalid === true;
+}
+
+/** Strategy name recorded for invalid calls, which are answered by the fallback rather than a strategy. */
+export const FALLBACK_STRATEGY = 'fallback';
+
+/** Builds the entry for an invalid call, taking game and turn from the body when it has usable ones. */
+export function invalidReplayEntry(
+  phase: InvalidReplayEntry['phase'],
+  request: unknown,
+  issues: ValidationIssue[],
+  response: unknown[]
+): InvalidReplayEntry {
+  const { gameId, turn } = (typeof request === 'object' && request !== null ? request : {}) as Record<string, unknown>;
+  return {
+    gameId: Number.isInteger(gameId) ? (gameId as number) : UNKNOWN_GAME_ID,
+    turn: Number.isInteger(turn) ? (turn as number) : 0,
+    phase,
+    invalid: true,
+    strategy: FALLBACK_STRATEGY,
+    at: new Date().toISOString(),
+    request,
+    issues,
+    response
+  };
+}
+
+export function replayFileName(gameId: number): string {
+  return `game-${gameId}.jsonl`;
+}
+
+/**
+ * Appends every request/response pair to `<dir>/game-<gameId>.jsonl`. Writes are queued
+ * per game so lines stay in call order, and failures are logged rather than thrown.
+ */
+export function createReplayRecorder(options: ReplayRecorderOptions): ReplayRecorder {
+  const queues = new Map<number, Promise<void>>();
+  let ready: Promise<unknown> = mkdir(options.dir, { recursive: true });
+  let lastPrune = 0;
+
+  async function pruneExpired(): Promise<number> {
+    lastPrune = Date.now();
+    const cutoff = Date.now() - options.retentionDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+    for (const file of await readdir(options.dir)) {
+      if (!file.endsWith('.jsonl')) {
+        continue;
+      }
+      const fullPath = path.join(options.dir, file);
+      if ((await stat(fullPath)).mtimeMs < cutoff) {
+        await unlink(fullPath);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  return {
+    record: (entry) => {
+      if (Date.now() - lastPrune > PRUNE_INTERVAL_MS) {
+        ready = ready.then(pruneExpired).catch((err) => console.error('[KW-BOT] replay prune failed:', err));
+      }
+      const file = path.join(options.dir, replayFileName(entry.gameId));
+      const line = `${JSON.stringify(entry)}\n`;
+      const previous = queues.get(entry.gameId) ?? ready;
+      const next = previous
+        .then(() => appendFile(file, line))
+        .catch((err) => console.error(`[KW-BOT] replay write failed for game ${entry.gameId}:`, err));
+      queues.set(entry.gameId, next);
+    },
+    flush: async () => {
+      await ready;
+      await Promise.all(queues.values());
+    },
+    pruneExpired
+  };
+}
+
+export async function readReplay(file: string): Promise<ReplayEntry[]> {
+  const content = await readFile(file, 'utf8');
+  return content
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line) as ReplayEntry);
+}
@@ -0,0 +1,54 @@
+import { planContextFor, repairPlan } from '../actionPlan';
+import { computeSalvagedCombatActions } from '../combat';
+import { createGameMemoryStore } from '../memory';
+import type { Strategy } from '../strategies/types';
+import { describeActions } from '../trace';
+import { isInvalidReplayEntry } from './recorder';
+import type { ReplayEntry } from './recorder';
+
+export interface ReplayTurn {
+  turn: number;
+  phase: ReplayEntry['phase'];
+  sent: unknown[];
+  replayed: unknown[];
+  differs: boolean;
+}
+
+/**
+ * Feeds a recorded game through `strategy` in the original call order, with fresh memory,
+ * and pairs each response we actually sent with the one the strategy gives now. Invalid calls
+ * go through the same fallback the bot uses for them, and leave memory untouched as they did.
+ */
+export function replayGame(entries: ReplayEntry[], strategy: Strategy): ReplayTurn[] {
+  const memory = createGameMemoryStore();
+
+  return entries.map((entry) => {
+    let replayed: unknown[];
+    if (isInvalidReplayEntry(entry)) {
+      replayed = entry.phase === 'combat' ? computeSalvagedCombatActions(entry.request) : [];
+    } else if (entry.phase === 'negotiate') {
+      const proposals = strategy.negotiate(entry.request, { memory: memory.recordNegotiate(entry.request) });
+      // Remember what the replayed strategy proposed, so its combat can honour it as the bot's did.
+      memory.recordOurProposals(entry.request, proposals);
+      replayed = proposals;
+    } else {
+      const actions = strategy.combat(entry.request, { memory: memory.recordCombat(entry.request) });
+      replayed = repairPlan(actions, planContextFor(entry.request)).actions;
+    }
+
+    return {
+      turn: entry.turn,
+      phase: entry.phase,
+      sent: entry.response,
+      replayed,
+      differs: JSON.stringify(entry.response) !== JSON.stringify(replayed)
+    };
+  });
+}
+
+export function formatReplayTurn(turn: ReplayTurn): string {
+  const marker = turn.differs ? '*' : ' ';
+  const label = `turn ${turn.turn} ${turn.phase}`.padEnd(20);
+  const replayed = turn.differs ? describeActions(turn.replayed) : 'same';
+  return `${marker} ${label} sent=${describeActions(turn.sent)}  replayed=${replayed}`;
+}
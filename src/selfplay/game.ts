@@ -0,0 +1,184 @@
+import type { DiplomacyEntry } from '../types';
+import {
+  DEFAULT_SIMULATOR_CONFIG,
+  buildCombatRequest,
+  buildNegotiateRequest,
+  buildPlacements,
+  createGame,
+  isAlive,
+  resolveCombat,
+  startTurn,
+  toDiplomacyEntries
+} from '../simulator';
+import type { GameResult, GameState, PlayerPlan, SimulatorConfig, TurnLog } from '../simulator';
+import { formatIssues, validateCombatResponse, validateNegotiateResponse } from '../validation';
+import type { ValidationResult } from '../validation';
+
+/** A seat in an HTTP game: a bot answering `POST <url>/negotiate` and `POST <url>/combat`. */
+export interface HttpPlayer {
+  playerId: number;
+  name: string;
+  url: string;
+}
+
+export type ProtocolErrorKind = 'http-error' | 'timeout' | 'invalid-json' | 'invalid-response' | 'rejected-plan';
+
+export interface ProtocolError {
+  gameId: number;
+  turn: number;
+  playerId: number;
+  name: string;
+  phase: 'negotiate' | 'combat';
+  kind: ProtocolErrorKind;
+  message: string;
+}
+
+export interface HttpGameOptions {
+  gameId?: number;
+  config?: Partial<SimulatorConfig>;
+  /** How long a bot gets to answer a call before it counts as a timeout and an empty answer. */
+  timeoutMs?: number;
+}
+
+export interface HttpGameResult extends GameResult {
+  errors: ProtocolError[];
+  /** Slowest answer seen from each player, in milliseconds. */
+  slowestMs: Record<number, number>;
+}
+
+export const DEFAULT_TIMEOUT_MS = 2000;
+
+/** Plan rejection for a bot whose combat call failed; the failure itself is already recorded. */
+const NO_ANSWER = 'no valid answer';
+
+type CallResult<T> = { ok: true; value: T } | { ok: false; kind: ProtocolErrorKind; message: string };
+
+/** Posts one turn the way the engine does and checks the answer's shape; never throws. */
+async function callBot<T>(
+  url: string,
+  request: unknown,
+  timeoutMs: number,
+  validate: (body: unknown) => ValidationResult<T>
+): Promise<CallResult<T>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === 'TimeoutError';
+    const message = timedOut ? `no answer within ${timeoutMs}ms` : err instanceof Error ? err.message : String(err);
+    return { ok: false, kind: timedOut ? 'timeout' : 'http-error', message };
+  }
+  const text = await response.text().catch(() => '');
+  if (response.status !== 200) {
+    return { ok: false, kind: 'http-error', message: `status ${response.status}: ${text.slice(0, 200)}` };
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { ok: false, kind: 'invalid-json', message: `not JSON: ${text.slice(0, 200)}` };
+  }
+  const validation = validate(body);
+  return validation.ok
+    ? { ok: true, value: validation.value }
+    : { ok: false, kind: 'invalid-response', message: formatIssues(validation.issues) };
+}
+
+/**
+ * Plays one full game against bots over HTTP, as the organisers' engine would: every live bot
+ * negotiates, then gets the others' proposals as `diplomacy` and answers combat, and the next
+ * turn reports the resolved attacks back as `combatActions` and `previousAttacks`. Calls within
+ * a phase go out together. Failed calls and rejected plans are recorded as protocol errors and
+ * played as empty answers, so one broken bot doesn't stop the game.
+ */
+export async function playHttpGame(players: HttpPlayer[], options: HttpGameOptions = {}): Promise<HttpGameResult> {
+  const config: SimulatorConfig = { ...DEFAULT_SIMULATOR_CONFIG, ...options.config };
+  const gameId = options.gameId ?? 1;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const errors: ProtocolError[] = [];
+  const slowestMs: Record<number, number> = {};
+  const log: TurnLog[] = [];
+
+  const seat = (player: HttpPlayer, turn: number) => ({ gameId, turn, playerId: player.playerId, name: player.name });
+
+  async function call<T>(
+    player: HttpPlayer,
+    state: GameState,
+    phase: ProtocolError['phase'],
+    request: unknown,
+    validate: (body: unknown) => ValidationResult<T>
+  ): Promise<T | undefined> {
+    const startedAt = performance.now();
+    const result = await callBot(`${player.url}/${phase}`, request, timeoutMs, validate);
+    slowestMs[player.playerId] = Math.max(slowestMs[player.playerId] ?? 0, performance.now() - startedAt);
+    if (result.ok) {
+      return result.value;
+    }
+    errors.push({ ...seat(player, state.turn), phase, kind: result.kind, message: result.message });
+    return undefined;
+  }
+
+  let state = createGame(
+    gameId,
+    players.map((player) => player.playerId),
+    config
+  );
+  while (state.turn < config.maxTurns && state.towers.filter(isAlive).length > 1) {
+    state = startTurn(state);
+    const current = state;
+    const livePlayers = players.filter((player) =>
+      current.towers.some((tower) => tower.playerId === player.playerId && isAlive(tower))
+    );
+
+    const proposals = await Promise.all(
+      livePlayers.map((player) =>
+        call(player, current, 'negotiate', buildNegotiateRequest(current, player.playerId), validateNegotiateResponse)
+      )
+    );
+    const diplomacy: DiplomacyEntry[] = livePlayers.flatMap((player, index) =>
+      toDiplomacyEntries(current, player.playerId, proposals[index] ?? [])
+    );
+
+    const submitted: PlayerPlan[] = await Promise.all(
+      livePlayers.map(async (player) => {
+        const request = buildCombatRequest(current, player.playerId, diplomacy);
+        const actions = await call(player, current, 'combat', request, validateCombatResponse);
+        return { playerId: player.playerId, actions: actions ?? [], rejected: actions ? undefined : NO_ANSWER };
+      })
+    );
+    const resolved = resolveCombat(current, submitted, config);
+    for (const plan of resolved.plans) {
+      if (plan.rejected && plan.rejected !== NO_ANSWER) {
+        const player = livePlayers.find((entry) => entry.playerId === plan.playerId)!;
+        errors.push({ ...seat(player, current.turn), phase: 'combat', kind: 'rejected-plan', message: plan.rejected });
+      }
+    }
+
+    log.push({
+      turn: current.turn,
+      towers: current.towers.map((tower) => ({ ...tower })),
+      diplomacy,
+      plans: resolved.plans,
+      attacks: resolved.attacks,
+      eliminated: resolved.eliminated
+    });
+    state = resolved.state;
+  }
+
+  const placements = buildPlacements(players, state);
+  const winners = placements.filter((placement) => placement.place === 1);
+  return {
+    gameId,
+    turnsPlayed: state.turn,
+    winnerId: winners.length === 1 ? winners[0].playerId : undefined,
+    placements,
+    log,
+    errors,
+    slowestMs
+  };
+}
@@ -0,0 +1,110 @@
+import type { SimulatorConfig } from '../simulator';
+import { playHttpGame } from './game';
+import type { HttpGameResult, HttpPlayer, ProtocolError } from './game';
+
+export { DEFAULT_TIMEOUT_MS, playHttpGame } from './game';
+export type { HttpGameOptions, HttpGameResult, HttpPlayer, ProtocolError, ProtocolErrorKind } from './game';
+export { launchBotApp } from './launcher';
+export type { LaunchOptions, LaunchedApp } from './launcher';
+
+export interface SelfPlaySeat {
+  name: string;
+  url: string;
+}
+
+export interface SelfPlayOptions {
+  seats: SelfPlaySeat[];
+  games: number;
+  /** Id of the first game; later games count up from it. */
+  firstGameId?: number;
+  config?: Partial<SimulatorConfig>;
+  timeoutMs?: number;
+}
+
+export interface SeatStanding {
+  name: string;
+  url: string;
+  games: number;
+  wins: number;
+  averagePlace: number;
+  errors: number;
+  slowestMs: number;
+}
+
+export interface SelfPlayReport {
+  games: HttpGameResult[];
+  standings: SeatStanding[];
+  errors: ProtocolError[];
+}
+
+/** Player id of a seat in a given game; ids rotate by one seat per game. */
+function seatPlayerId(seatIndex: number, game: number, seatCount: number): number {
+  return ((seatIndex + game) % seatCount) + 1;
+}
+
+/**
+ * Plays `games` HTTP games between the seats one after another, rotating player ids so every
+ * seat takes every position. Each seat needs its own URL: a bot keeps per-game memory, and two
+ * seats sharing one would share it.
+ */
+export async function runSelfPlay(options: SelfPlayOptions): Promise<SelfPlayReport> {
+  const { seats } = options;
+  if (seats.length < 2) {
+    throw new Error('Self-play needs at least two seats');
+  }
+  const urls = new Set(seats.map((seat) => seat.url));
+  if (urls.size !== seats.length) {
+    throw new Error('Every seat needs its own bot URL');
+  }
+
+  const firstGameId = options.firstGameId ?? 1;
+  const games: HttpGameResult[] = [];
+  for (let game = 0; game < options.games; game++) {
+    const players: HttpPlayer[] = seats.map((seat, index) => ({ ...seat, playerId: seatPlayerId(index, game, seats.length) }));
+    games.push(await playHttpGame(players, { gameId: firstGameId + game, config: options.config, timeoutMs: options.timeoutMs }));
+  }
+
+  const standings = seats.map((seat, seatIndex): SeatStanding => {
+    const played = games.map((game, index) => ({ game, playerId: seatPlayerId(seatIndex, index, seats.length) }));
+    const places = played.map(({ game, playerId }) => game.placements.find((entry) => entry.playerId === playerId)!.place);
+    return {
+      ...seat,
+      games: games.length,
+      wins: played.filter(({ game, playerId }) => game.winnerId === playerId).length,
+      averagePlace: places.reduce((sum, place) => sum + place, 0) / Math.max(1, games.length),
+      errors: played.reduce((sum, { game, playerId }) => sum + game.errors.filter((error) => error.playerId === playerId).length, 0),
+      slowestMs: Math.max(0, ...played.map(({ game, playerId }) => game.slowestMs[playerId] ?? 0))
+    };
+  });
+
+  return { games, standings, errors: games.flatMap((game) => game.errors) };
+}
+
+export function formatSelfPlayReport(report: SelfPlayReport, maxErrors = 20): string {
+  const header = ['seat', 'games', 'wins', 'avg place', 'errors', 'slowest'];
+  const rows = report.standings.map((s) => [
+    s.name,
+    String(s.games),
+    String(s.wins),
+    s.averagePlace.toFixed(2),
+    String(s.errors),
+    `${s.slowestMs.toFixed(0)}ms`
+  ]);
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map((row) => row[col].length)));
+  const line = (cells: string[]) => cells.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd();
+
+  const errors = report.errors
+    .slice(0, maxErrors)
+    .map((error) => `game=${error.gameId} turn=${error.turn} ${error.name} /${error.phase} ${error.kind}: ${error.message}`);
+  if (report.errors.length > maxErrors) {
+    errors.push(`... and ${report.errors.length - maxErrors} more`);
+  }
+
+  return [
+    `games=${report.games.length} protocol errors=${report.errors.length}`,
+    line(header),
+    line(widths.map((w) => '-'.repeat(w))),
+    ...rows.map(line),
+    ...(errors.length > 0 ? ['', 'protocol errors:', ...errors] : [])
+  ].join('\n');
+}
@@ -0,0 +1,89 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import type { BotConfig } from '../bot';
+
+export interface LaunchOptions {
+  /** One bot per seat; each is served under `/bots/<id>`. */
+  bots: BotConfig[];
+  port: number;
+  /** The app entry point; `.ts` entries are run through ts-node. */
+  entry?: string;
+  /** Extra environment for the app, such as `TURN_BUDGET_MS`. */
+  env?: Record<string, string>;
+  startupTimeoutMs?: number;
+}
+
+export interface LaunchedApp {
+  baseUrl: string;
+  /** Base URL of each bot's turn routes, by bot id. */
+  urls: Map<string, string>;
+  /** Warnings and errors the app logged, most recent last. */
+  warnings(): string[];
+  stop(): Promise<void>;
+}
+
+const DEFAULT_ENTRY = path.resolve(__dirname, '../index.ts');
+const DEFAULT_STARTUP_TIMEOUT_MS = 60 * 1000;
+const MAX_WARNINGS = 200;
+const POLL_INTERVAL_MS = 250;
+
+async function waitForHealthy(baseUrl: string, timeoutMs: number, exited: () => boolean): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline && !exited()) {
+    const healthy = await fetch(`${baseUrl}/healthz`, { signal: AbortSignal.timeout(POLL_INTERVAL_MS * 4) })
+      .then((response) => response.ok)
+      .catch(() => false);
+    if (healthy) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  throw new Error(exited() ? 'app exited before it became healthy' : `app not healthy after ${timeoutMs}ms`);
+}
+
+/**
+ * Starts this app in a child process hosting `bots` through the `BOTS` variable, exactly as it
+ * is deployed, and resolves once `/healthz` answers. Its stderr is kept for the report; its
+ * per-request log lines are discarded.
+ */
+export async function launchBotApp(options: LaunchOptions): Promise<LaunchedApp> {
+  const entry = options.entry ?? DEFAULT_ENTRY;
+  const args = entry.endsWith('.ts') ? ['-r', 'ts-node/register/transpile-only', entry] : [entry];
+  const child = spawn(process.execPath, args, {
+    env: { ...process.env, ...options.env, PORT: String(options.port), BOTS: JSON.stringify(options.bots) },
+    stdio: ['ignore', 'ignore', 'pipe']
+  });
+
+  const warnings: string[] = [];
+  let exited = false;
+  const exit = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+  exit.then(() => (exited = true));
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (chunk: string) => {
+    warnings.push(...chunk.split('\n').filter((line) => line.trim() !== ''));
+    warnings.splice(0, Math.max(0, warnings.length - MAX_WARNINGS));
+  });
+
+  async function stop(): Promise<void> {
+    if (!exited) {
+      child.kill('SIGTERM');
+      await exit;
+    }
+  }
+
+  const baseUrl = `http://127.0.0.1:${options.port}`;
+  try {
+    await waitForHealthy(baseUrl, options.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS, () => exited);
+  } catch (err) {
+    await stop();
+    const detail = warnings.length > 0 ? `:\n${warnings.slice(-10).join('\n')}` : '';
+    throw new Error(`${err instanceof Error ? err.message : err}${detail}`);
+  }
+
+  return {
+    baseUrl,
+    urls: new Map(options.bots.map((bot) => [bot.id, `${baseUrl}/bots/${bot.id}`])),
+    warnings: () => [...warnings],
+    stop
+  };
+}
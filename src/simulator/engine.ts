@@ -0,0 +1,209 @@
+import type {
+  CombatActionAttack,
+  CombatRequest,
+  DiplomacyEntry,
+  NegotiateRequest,
+  NegotiateResponseItem,
+  Tower
+} from '../types';
+import { MAX_LEVEL, resourcesPerTurn, upgradeCost } from '../types';
+import { findPlanViolation } from '../actionPlan';
+import type { Elimination, GameState, PlayerPlan, SimulatorConfig } from './types';
+
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = {
+  maxTurns: 60,
+  startingHp: 100,
+  startingArmor: 0,
+  startingLevel: 1
+};
+
+export function isAlive(tower: Tower): boolean {
+  return tower.hp > 0;
+}
+
+export function createGame(gameId: number, playerIds: number[], config: SimulatorConfig): GameState {
+  return {
+    gameId,
+    turn: 0,
+    towers: playerIds.map((playerId) => ({
+      playerId,
+      hp: config.startingHp,
+      armor: config.startingArmor,
+      resources: 0,
+      level: config.startingLevel
+    })),
+    previousAttacks: [],
+    eliminations: []
+  };
+}
+
+/** Advances to the next turn and pays every live tower its income. */
+export function startTurn(state: GameState): GameState {
+  return {
+    ...state,
+    turn: state.turn + 1,
+    towers: state.towers.map((tower) =>
+      isAlive(tower) ? { ...tower, resources: (tower.resources ?? 0) + resourcesPerTurn(tower.level) } : { ...tower }
+    )
+  };
+}
+
+function findTower(state: GameState, playerId: number): Tower {
+  const tower = state.towers.find((t) => t.playerId === playerId);
+  if (!tower) {
+    throw new Error(`Unknown player ${playerId} in game ${state.gameId}`);
+  }
+  return tower;
+}
+
+/** Enemies are reported without `resources`, matching what the real engine reveals. */
+function enemyView(state: GameState, playerId: number): Tower[] {
+  return state.towers
+    .filter((tower) => tower.playerId !== playerId)
+    .map(({ playerId: id, hp, armor, level }) => ({ playerId: id, hp, armor, level }));
+}
+
+export function buildNegotiateRequest(state: GameState, playerId: number): NegotiateRequest {
+  return {
+    gameId: state.gameId,
+    turn: state.turn,
+    playerTower: { ...findTower(state, playerId) },
+    enemyTowers: enemyView(state, playerId),
+    combatActions: state.previousAttacks.map((attack) => ({ ...attack, action: { ...attack.action } }))
+  };
+}
+
+/** Turns a bot's negotiate response into diplomacy entries, dropping proposals to dead or unknown players. */
+export function toDiplomacyEntries(
+  state: GameState,
+  playerId: number,
+  response: NegotiateResponseItem[]
+): DiplomacyEntry[] {
+  const liveOthers = new Set(
+    state.towers.filter((t) => isAlive(t) && t.playerId !== playerId).map((t) => t.playerId)
+  );
+
+  return response
+    .filter((item) => liveOthers.has(item.allyId))
+    .map((item) => {
+      const action: DiplomacyEntry['action'] = { allyId: item.allyId };
+      if (item.attackTargetId !== undefined && liveOthers.has(item.attackTargetId)) {
+        action.attackTargetId = item.attackTargetId;
+      }
+      return { playerId, action };
+    });
+}
+
+/** Each bot sees the proposals made by every other player this turn. */
+export function buildCombatRequest(state: GameState, playerId: number, diplomacy: DiplomacyEntry[]): CombatRequest {
+  return {
+    gameId: state.gameId,
+    turn: state.turn,
+    playerTower: { ...findTower(state, playerId) },
+    enemyTowers: enemyView(state, playerId),
+    diplomacy: diplomacy
+      .filter((entry) => entry.playerId !== playerId)
+      .map((entry) => ({ ...entry, action: { ...entry.action } })),
+    previousAttacks: state.previousAttacks.map((attack) => ({ ...attack, action: { ...attack.action } }))
+  };
+}
+
+/**
+ * Resolves one combat phase. Armor bought this turn absorbs this turn's attacks,
+ * upgrades take effect after damage, and opt-in fatigue is applied last.
+ */
+export function resolveCombat(
+  state: GameState,
+  submitted: PlayerPlan[],
+  config: SimulatorConfig
+): { state: GameState; plans: PlayerPlan[]; attacks: CombatActionAttack[]; eliminated: number[] } {
+  const towers = new Map(state.towers.map((tower) => [tower.playerId, { ...tower }]));
+  const liveIds = state.towers.filter(isAlive).map((tower) => tower.playerId);
+
+  const plans: PlayerPlan[] = submitted.map((plan) => {
+    const tower = towers.get(plan.playerId);
+    if (!tower || !isAlive(tower)) {
+      return { ...plan, actions: [], rejected: 'player is not alive' };
+    }
+    if (plan.rejected) {
+      return { ...plan, actions: [] };
+    }
+    const violation = findPlanViolation(plan.actions, {
+      resources: tower.resources ?? 0,
+      level: tower.level,
+      targetIds: new Set(liveIds.filter((id) => id !== plan.playerId))
+    });
+    return violation ? { ...plan, actions: [], rejected: violation } : plan;
+  });
+
+  const attacks: CombatActionAttack[] = [];
+  const upgrades: number[] = [];
+
+  for (const plan of plans) {
+    const tower = towers.get(plan.playerId)!;
+    for (const action of plan.actions) {
+      if (action.type === 'armor') {
+        tower.armor += action.amount;
+        tower.resources = (tower.resources ?? 0) - action.amount;
+      } else if (action.type === 'upgrade') {
+        tower.resources = (tower.resources ?? 0) - upgradeCost(tower.level);
+        upgrades.push(tower.playerId);
+      } else {
+        tower.resources = (tower.resources ?? 0) - action.troopCount;
+        attacks.push({ playerId: plan.playerId, action: { targetId: action.targetId, troopCount: action.troopCount } });
+      }
+    }
+  }
+
+  const incomingByTarget = new Map<number, CombatActionAttack[]>();
+  for (const attack of attacks) {
+    const list = incomingByTarget.get(attack.action.targetId) ?? [];
+    list.push(attack);
+    incomingByTarget.set(attack.action.targetId, list);
+  }
+
+  const killers = new Map<number, number>();
+  for (const [targetId, incoming] of incomingByTarget) {
+    const target = towers.get(targetId)!;
+    const total = incoming.reduce((sum, attack) => sum + attack.action.troopCount, 0);
+    const absorbed = Math.min(target.armor, total);
+    target.armor -= absorbed;
+    target.hp -= total - absorbed;
+    if (!isAlive(target)) {
+      const heaviest = [...incoming].sort(
+        (a, b) => b.action.troopCount - a.action.troopCount || a.playerId - b.playerId
+      )[0];
+      killers.set(targetId, heaviest.playerId);
+    }
+  }
+
+  for (const playerId of upgrades) {
+    const tower = towers.get(playerId)!;
+    tower.level = Math.min(MAX_LEVEL, tower.level + 1);
+  }
+
+  if (config.fatigue && state.turn >= config.fatigue.startTurn) {
+    const fatigue = (state.turn - config.fatigue.startTurn + 1) * config.fatigue.damagePerTurn;
+    for (const playerId of liveIds) {
+      towers.get(playerId)!.hp -= fatigue;
+    }
+  }
+
+  const eliminated = liveIds.filter((playerId) => !isAlive(towers.get(playerId)!));
+  const eliminations: Elimination[] = [
+    ...state.eliminations,
+    ...eliminated.map((playerId) => ({ playerId, turn: state.turn, killerId: killers.get(playerId) }))
+  ];
+
+  return {
+    state: {
+      ...state,
+      towers: state.towers.map((tower) => towers.get(tower.playerId)!),
+      previousAttacks: attacks,
+      eliminations
+    },
+    plans,
+    attacks,
+    eliminated
+  };
+}
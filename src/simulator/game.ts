@@ -0,0 +1,162 @@
+import type { CombatAction, DiplomacyEntry, NegotiateResponseItem } from '../types';
+import { createGameMemoryStore } from '../memory';
+import { turnRng } from '../random';
+import type { GameMemoryStore } from '../memory';
+import {
+  DEFAULT_SIMULATOR_CONFIG,
+  buildCombatRequest,
+  buildNegotiateRequest,
+  createGame,
+  isAlive,
+  resolveCombat,
+  startTurn,
+  toDiplomacyEntries
+} from './engine';
+import type { GameResult, GameState, Placement, PlayerPlan, SimPlayer, SimulatorConfig, TurnLog } from './types';
+
+export interface PlayGameOptions {
+  gameId?: number;
+  config?: Partial<SimulatorConfig>;
+  /** Salts every bot's `turnRng`; the same seed replays the same game. */
+  seed?: number;
+}
+
+function safeNegotiate(
+  player: SimPlayer,
+  state: GameState,
+  memory: GameMemoryStore,
+  seed: number
+): NegotiateResponseItem[] {
+  try {
+    const request = buildNegotiateRequest(state, player.playerId);
+    const response = player.strategy.negotiate(request, {
+      memory: memory.recordNegotiate(request),
+      rng: turnRng(request, seed)
+    });
+    if (!Array.isArray(response)) {
+      return [];
+    }
+    memory.recordOurProposals(request, response);
+    return response;
+  } catch {
+    return [];
+  }
+}
+
+function safeCombat(
+  player: SimPlayer,
+  state: GameState,
+  diplomacy: DiplomacyEntry[],
+  memory: GameMemoryStore,
+  seed: number
+): PlayerPlan {
+  try {
+    const request = buildCombatRequest(state, player.playerId, diplomacy);
+    const actions: CombatAction[] = player.strategy.combat(request, {
+      memory: memory.recordCombat(request),
+      rng: turnRng(request, seed)
+    });
+    if (!Array.isArray(actions)) {
+      return { playerId: player.playerId, actions: [], rejected: 'response is not an array' };
+    }
+    return { playerId: player.playerId, actions };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { playerId: player.playerId, actions: [], rejected: `strategy threw: ${message}` };
+  }
+}
+
+/** Survivors by hp, then everyone else by how late they fell. */
+export function buildPlacements(players: Pick<SimPlayer, 'playerId' | 'name'>[], state: GameState): Placement[] {
+  const survivors = state.towers
+    .filter(isAlive)
+    .sort((a, b) => b.hp - a.hp || b.armor - a.armor || a.playerId - b.playerId);
+  const eliminated = [...state.eliminations].sort((a, b) => b.turn - a.turn);
+  const kills = new Map<number, number>();
+  for (const elimination of state.eliminations) {
+    if (elimination.killerId !== undefined) {
+      kills.set(elimination.killerId, (kills.get(elimination.killerId) ?? 0) + 1);
+    }
+  }
+  const nameOf = (playerId: number) => players.find((p) => p.playerId === playerId)?.name ?? String(playerId);
+
+  const placements: Placement[] = survivors.map((tower, index) => ({
+    playerId: tower.playerId,
+    name: nameOf(tower.playerId),
+    place: index + 1,
+    turnsSurvived: state.turn,
+    kills: kills.get(tower.playerId) ?? 0
+  }));
+
+  let place = survivors.length + 1;
+  eliminated.forEach((elimination, index) => {
+    if (index > 0 && elimination.turn !== eliminated[index - 1].turn) {
+      place = survivors.length + index + 1;
+    }
+    placements.push({
+      playerId: elimination.playerId,
+      name: nameOf(elimination.playerId),
+      place,
+      turnsSurvived: elimination.turn,
+      kills: kills.get(elimination.playerId) ?? 0,
+      eliminatedOnTurn: elimination.turn
+    });
+  });
+
+  return placements;
+}
+
+/**
+ * Plays one full game offline: each turn every live bot negotiates, then receives
+ * the other players' proposals and submits combat actions, which the engine resolves.
+ */
+export function playGame(players: SimPlayer[], options: PlayGameOptions = {}): GameResult {
+  const config: SimulatorConfig = { ...DEFAULT_SIMULATOR_CONFIG, ...options.config };
+  const gameId = options.gameId ?? 1;
+  const seed = options.seed ?? 0;
+  let state = createGame(
+    gameId,
+    players.map((player) => player.playerId),
+    config
+  );
+  const log: TurnLog[] = [];
+  // Each bot keeps its own memory, as it would on its own server.
+  const memories = new Map(players.map((player) => [player.playerId, createGameMemoryStore()]));
+
+  while (state.turn < config.maxTurns && state.towers.filter(isAlive).length > 1) {
+    state = startTurn(state);
+    const current = state;
+    const livePlayers = players.filter((player) =>
+      current.towers.some((tower) => tower.playerId === player.playerId && isAlive(tower))
+    );
+
+    const diplomacy = livePlayers.flatMap((player) =>
+      toDiplomacyEntries(current, player.playerId, safeNegotiate(player, current, memories.get(player.playerId)!, seed))
+    );
+    const submitted = livePlayers.map((player) =>
+      safeCombat(player, current, diplomacy, memories.get(player.playerId)!, seed)
+    );
+    const resolved = resolveCombat(current, submitted, config);
+
+    log.push({
+      turn: current.turn,
+      towers: current.towers.map((tower) => ({ ...tower })),
+      diplomacy,
+      plans: resolved.plans,
+      attacks: resolved.attacks,
+      eliminated: resolved.eliminated
+    });
+    state = resolved.state;
+  }
+
+  const placements = buildPlacements(players, state);
+  const winners = placements.filter((placement) => placement.place === 1);
+
+  return {
+    gameId,
+    turnsPlayed: state.turn,
+    winnerId: winners.length === 1 ? winners[0].playerId : undefined,
+    placements,
+    log
+  };
+}
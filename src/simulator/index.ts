@@ -0,0 +1,15 @@
+export {
+  DEFAULT_SIMULATOR_CONFIG,
+  buildCombatRequest,
+  buildNegotiateRequest,
+  createGame,
+  isAlive,
+  resolveCombat,
+  startTurn,
+  toDiplomacyEntries
+} from './engine';
+export { buildPlacements, playGame } from './game';
+export type { PlayGameOptions } from './game';
+export type * from './types';
+export { formatTournamentTable, runTournament } from './tournament';
+export type { StrategyStanding, TournamentOptions, TournamentReport } from './tournament';
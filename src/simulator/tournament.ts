@@ -0,0 +1,144 @@
+import { createRng, hashSeed, shuffle } from '../random';
+import { getStrategy } from '../strategies';
+import type { StrategyName } from '../strategies/types';
+import { playGame } from './game';
+import type { GameResult, SimulatorConfig } from './types';
+
+export interface TournamentOptions {
+  strategies: StrategyName[];
+  games: number;
+  playersPerGame: number;
+  seed: number;
+  config?: Partial<SimulatorConfig>;
+}
+
+export interface StrategyStanding {
+  strategy: StrategyName;
+  games: number;
+  wins: number;
+  winRate: number;
+  averagePlace: number;
+  averageTurnsSurvived: number;
+  eliminations: number;
+  eliminationsPerGame: number;
+}
+
+export interface TournamentReport {
+  seed: number;
+  games: number;
+  playersPerGame: number;
+  /** Best first: lowest average place, then highest win rate. */
+  standings: StrategyStanding[];
+}
+
+/** Every way to seat `size` of the given strategies; repeats strategies when there are fewer than seats. */
+function buildLineups(strategies: StrategyName[], size: number): StrategyName[][] {
+  if (strategies.length <= size) {
+    return [Array.from({ length: size }, (_, i) => strategies[i % strategies.length])];
+  }
+
+  const lineups: StrategyName[][] = [];
+  const pick = (start: number, current: StrategyName[]) => {
+    if (current.length === size) {
+      lineups.push(current);
+      return;
+    }
+    for (let i = start; i < strategies.length; i++) {
+      pick(i + 1, [...current, strategies[i]]);
+    }
+  };
+  pick(0, []);
+  return lineups;
+}
+
+function emptyStanding(strategy: StrategyName): StrategyStanding {
+  return {
+    strategy,
+    games: 0,
+    wins: 0,
+    winRate: 0,
+    averagePlace: 0,
+    averageTurnsSurvived: 0,
+    eliminations: 0,
+    eliminationsPerGame: 0
+  };
+}
+
+/**
+ * Plays `games` seeded games, cycling through every lineup of `playersPerGame`
+ * strategies with a shuffled seat order, and aggregates results per strategy.
+ */
+export function runTournament(options: TournamentOptions): TournamentReport {
+  const strategies = [...new Set(options.strategies)];
+  if (strategies.length === 0) {
+    throw new Error('Tournament needs at least one strategy');
+  }
+  if (options.playersPerGame < 2) {
+    throw new Error('Tournament needs at least two players per game');
+  }
+
+  const rng = createRng(options.seed);
+  const lineups = buildLineups(strategies, options.playersPerGame);
+  const totals = new Map(strategies.map((name) => [name, { ...emptyStanding(name), places: 0, turns: 0 }]));
+
+  for (let game = 0; game < options.games; game++) {
+    const seating = shuffle(lineups[game % lineups.length], rng);
+    const players = seating.map((name, index) => ({ playerId: index + 1, name, strategy: getStrategy(name) }));
+    const result: GameResult = playGame(players, {
+      gameId: game + 1,
+      config: options.config,
+      seed: hashSeed(options.seed, game)
+    });
+
+    for (const placement of result.placements) {
+      const entry = totals.get(placement.name as StrategyName)!;
+      entry.games += 1;
+      entry.wins += result.winnerId === placement.playerId ? 1 : 0;
+      entry.places += placement.place;
+      entry.turns += placement.turnsSurvived;
+      entry.eliminations += placement.kills;
+    }
+  }
+
+  const standings = [...totals.values()]
+    .map(({ places, turns, ...standing }) => {
+      const games = Math.max(1, standing.games);
+      return {
+        ...standing,
+        winRate: standing.wins / games,
+        averagePlace: places / games,
+        averageTurnsSurvived: turns / games,
+        eliminationsPerGame: standing.eliminations / games
+      };
+    })
+    // Average place counts every finish, not just outright wins, so it ranks; win rate breaks ties.
+    .sort((a, b) => a.averagePlace - b.averagePlace || b.winRate - a.winRate);
+
+  return {
+    seed: options.seed,
+    games: options.games,
+    playersPerGame: options.playersPerGame,
+    standings
+  };
+}
+
+export function formatTournamentTable(report: TournamentReport): string {
+  const header = ['strategy', 'games', 'win rate', 'avg place', 'avg turns', 'elims/game'];
+  const rows = report.standings.map((s) => [
+    s.strategy,
+    String(s.games),
+    `${(s.winRate * 100).toFixed(1)}%`,
+    s.averagePlace.toFixed(2),
+    s.averageTurnsSurvived.toFixed(1),
+    s.eliminationsPerGame.toFixed(2)
+  ]);
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map((row) => row[col].length)));
+  const line = (cells: string[]) => cells.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd();
+
+  return [
+    `seed=${report.seed} games=${report.games} players/game=${report.playersPerGame} ranked by avg place, then win rate`,
+    line(header),
+    line(widths.map((w) => '-'.repeat(w))),
+    ...rows.map(line)
+  ].join('\n');
+}
@@ -0,0 +1,77 @@
+import type { CombatAction, CombatActionAttack, DiplomacyEntry, Tower } from '../types';
+import type { Strategy } from '../strategies/types';
+
+export interface SimulatorConfig {
+  maxTurns: number;
+  startingHp: number;
+  startingArmor: number;
+  startingLevel: number;
+  /**
+   * Not a Kingdom Wars rule: an opt-in way to force stalled experimental games to end. Off by
+   * default, so simulated games play exactly like the real engine.
+   */
+  fatigue?: FatigueRule;
+}
+
+/** From `startTurn` on every live tower loses `damagePerTurn` hp, one more step each turn. */
+export interface FatigueRule {
+  startTurn: number;
+  damagePerTurn: number;
+}
+
+export interface GameState {
+  gameId: number;
+  /** Turn currently being played; 0 before the first turn starts. */
+  turn: number;
+  towers: Tower[];
+  /** Attacks resolved on the previous turn, delivered to bots as `previousAttacks`/`combatActions`. */
+  previousAttacks: CombatActionAttack[];
+  eliminations: Elimination[];
+}
+
+export interface Elimination {
+  playerId: number;
+  turn: number;
+  /** Player credited with the kill, if it came from an attack rather than fatigue. */
+  killerId?: number;
+}
+
+export interface PlayerPlan {
+  playerId: number;
+  actions: CombatAction[];
+  /** Why the engine discarded the plan; a rejected plan is resolved as no actions. */
+  rejected?: string;
+}
+
+export interface TurnLog {
+  turn: number;
+  towers: Tower[];
+  diplomacy: DiplomacyEntry[];
+  plans: PlayerPlan[];
+  attacks: CombatActionAttack[];
+  eliminated: number[];
+}
+
+export interface SimPlayer {
+  playerId: number;
+  name: string;
+  strategy: Strategy;
+}
+
+export interface Placement {
+  playerId: number;
+  name: string;
+  /** 1 is the winner; players eliminated on the same turn share a place. */
+  place: number;
+  turnsSurvived: number;
+  kills: number;
+  eliminatedOnTurn?: number;
+}
+
+export interface GameResult {
+  gameId: number;
+  turnsPlayed: number;
+  winnerId?: number;
+  placements: Placement[];
+  log: TurnLog[];
+}
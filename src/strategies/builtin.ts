@@ -0,0 +1,28 @@
+import { createPipelineStrategy, parseStrategyDefinition } from './pipeline';
+import type { StrategyDefinition } from './pipeline';
+import type { BuiltinStrategyName, Strategy } from './types';
+import armorControlDefinition from './definitions/armor-control.json';
+import cappedBuffDefinition from './definitions/capped-buff.json';
+import hybridLiteDefinition from './definitions/hybrid-lite.json';
+import legacyDefinition from './definitions/legacy.json';
+import tempoThreatDefinition from './definitions/tempo-threat.json';
+
+/** Built-in strategies that are nothing but a pipeline definition. */
+export type DefinedStrategyName = Exclude<BuiltinStrategyName, 'search' | 'meta'>;
+
+/** The definitions in `./definitions`, checked once at startup. */
+export const BUILTIN_DEFINITIONS: Record<DefinedStrategyName, StrategyDefinition> = {
+  legacy: parseStrategyDefinition(legacyDefinition),
+  'hybrid-lite': parseStrategyDefinition(hybridLiteDefinition),
+  'capped-buff': parseStrategyDefinition(cappedBuffDefinition),
+  'tempo-threat': parseStrategyDefinition(tempoThreatDefinition),
+  'armor-control': parseStrategyDefinition(armorControlDefinition)
+};
+
+export const BUILTIN_PIPELINES: Record<DefinedStrategyName, Strategy> = {
+  legacy: createPipelineStrategy(BUILTIN_DEFINITIONS.legacy),
+  'hybrid-lite': createPipelineStrategy(BUILTIN_DEFINITIONS['hybrid-lite']),
+  'capped-buff': createPipelineStrategy(BUILTIN_DEFINITIONS['capped-buff']),
+  'tempo-threat': createPipelineStrategy(BUILTIN_DEFINITIONS['tempo-threat']),
+  'armor-control': createPipelineStrategy(BUILTIN_DEFINITIONS['armor-control'])
+};
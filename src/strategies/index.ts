@@ -1,22 +1,57 @@
-import { legacyStrategy } from './legacy';
-import { hybridLiteStrategy } from './hybridLite';
-import { cappedBuffStrategy } from './cappedBuff';
-import { tempoThreatStrategy } from './tempoThreat';
-import { armorControlStrategy } from './armorControl';
-import type { Strategy, StrategyName } from './types';
+import { searchStrategy } from './search';
+import { createMetaStrategy } from './meta';
+import { BUILTIN_PIPELINES } from './builtin';
+import { createPipelineStrategy, loadStrategyDefinitions } from './pipeline';
+import type { StrategyDefinition } from './pipeline';
+import type { BuiltinStrategyName, Strategy, StrategyName } from './types';
+
+export const STRATEGY_NAMES: BuiltinStrategyName[] = [
+  'legacy',
+  'hybrid-lite',
+  'capped-buff',
+  'tempo-threat',
+  'armor-control',
+  'search',
+  'meta'
+];
+
+const configStrategies = new Map<string, Strategy>();
+const metaStrategy = createMetaStrategy(getStrategy);
+
+/** Makes `definition` selectable as `config:<name>`, replacing any earlier definition of that name. */
+export function registerStrategyDefinition(definition: StrategyDefinition): StrategyName {
+  const name: StrategyName = `config:${definition.name}`;
+  configStrategies.set(name, createPipelineStrategy(definition));
+  return name;
+}
+
+/** Registers every definition in `dir`; throws if any of them is invalid. */
+export function registerStrategyDefinitions(dir: string): StrategyName[] {
+  return loadStrategyDefinitions(dir).map(registerStrategyDefinition);
+}
+
+/** Built-in names followed by every registered `config:` pipeline. */
+export function listStrategyNames(): StrategyName[] {
+  return [...STRATEGY_NAMES, ...(configStrategies.keys() as IterableIterator<StrategyName>)];
+}
+
+export function isStrategyName(value: string): value is StrategyName {
+  return (STRATEGY_NAMES as string[]).includes(value) || configStrategies.has(value);
+}
 
 export function getStrategy(strategyName: StrategyName): Strategy {
   switch (strategyName) {
+    case 'meta':
+      return metaStrategy;
+    case 'search':
+      return searchStrategy;
     case 'armor-control':
-      return armorControlStrategy;
     case 'tempo-threat':
-      return tempoThreatStrategy;
     case 'capped-buff':
-      return cappedBuffStrategy;
     case 'hybrid-lite':
-      return hybridLiteStrategy;
     case 'legacy':
+      return BUILTIN_PIPELINES[strategyName];
     default:
-      return legacyStrategy;
+      return configStrategies.get(strategyName) ?? BUILTIN_PIPELINES.legacy;
   }
 }
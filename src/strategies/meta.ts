@@ -0,0 +1,66 @@
+import type { Tower } from '../types';
+import { classifyOpponents } from '../memory';
+import type { Archetype, GameMemory } from '../memory';
+import type { BuiltinStrategyName, Strategy, StrategyContext } from './types';
+
+export type CounterArchetype = Exclude<Archetype, 'unknown'>;
+/** Any built-in strategy but the meta-strategy itself. */
+export type CounterStrategyName = Exclude<BuiltinStrategyName, 'meta'>;
+
+/** Which strategy to hand the turn to when a table is dominated by each archetype; picked by design, not measured. */
+export const META_COUNTERS: Record<CounterArchetype, CounterStrategyName> = {
+  rusher: 'tempo-threat',
+  economy: 'armor-control',
+  turtle: 'tempo-threat'
+};
+
+/** Strategy used until we can label anyone, and when no archetype dominates. */
+export const META_FALLBACK: CounterStrategyName = 'tempo-threat';
+
+/** Ties between archetypes go to the most dangerous one. */
+const ARCHETYPE_PRIORITY: CounterArchetype[] = ['rusher', 'economy', 'turtle'];
+
+/** The archetype most live enemies play, ignoring the ones we cannot label yet. */
+export function dominantArchetype(memory: GameMemory, enemies: Tower[]): CounterArchetype | undefined {
+  const profiles = classifyOpponents(memory);
+  const counts = new Map<CounterArchetype, number>();
+  for (const enemy of enemies) {
+    const archetype = profiles.get(enemy.playerId)?.archetype;
+    if (enemy.hp > 0 && archetype && archetype !== 'unknown') {
+      counts.set(archetype, (counts.get(archetype) ?? 0) + 1);
+    }
+  }
+  return [...ARCHETYPE_PRIORITY]
+    .filter((archetype) => counts.has(archetype))
+    .sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))[0];
+}
+
+/**
+ * Hands each turn to the strategy that counters the archetype most live enemies play, so the
+ * choice follows the table as players are profiled and eliminated. The pick is made on the
+ * turn's first call and kept in game memory, so negotiate and combat never split between two
+ * strategies. `resolve` looks strategies up by name.
+ */
+export function createMetaStrategy(
+  resolve: (name: CounterStrategyName) => Strategy,
+  counters: Record<CounterArchetype, CounterStrategyName> = META_COUNTERS,
+  fallback: CounterStrategyName = META_FALLBACK
+): Strategy {
+  function delegate(turn: number, enemies: Tower[], context?: StrategyContext): Strategy {
+    const picked = context?.memory?.delegates.get(turn);
+    if (picked) {
+      context?.trace?.rule('meta-counter', { archetype: picked.reason, strategy: picked.strategy, cached: true });
+      return resolve(picked.strategy);
+    }
+    const archetype = context?.memory ? dominantArchetype(context.memory, enemies) : undefined;
+    const name = archetype ? counters[archetype] : fallback;
+    context?.memory?.delegates.set(turn, { strategy: name, reason: archetype ?? 'unknown' });
+    context?.trace?.rule('meta-counter', { archetype: archetype ?? 'unknown', strategy: name });
+    return resolve(name);
+  }
+
+  return {
+    negotiate: (request, context) => delegate(request.turn, request.enemyTowers, context).negotiate(request, context),
+    combat: (request, context) => delegate(request.turn, request.enemyTowers, context).combat(request, context)
+  };
+}
@@ -0,0 +1,228 @@
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import type { CombatAction, CombatRequest, NegotiateRequest, NegotiateResponseItem, Tower } from '../../types';
+import { findPlanViolation, planContextFor } from '../../actionPlan';
+import { buildReputations, chooseLeadPlotter, rankTrustedAllies } from '../../memory';
+import { withFocusFire } from '../../negotiation';
+import { formatIssues } from '../../validation';
+import type { ValidationIssue } from '../../validation';
+import { compareStrength, durability, estimateIncomingDamage } from '../shared';
+import type { Strategy, StrategyContext } from '../types';
+import { runStep } from './steps';
+import type { PipelineState } from './steps';
+import type { StrategyDefinition } from './types';
+
+function negotiate(
+  definition: StrategyDefinition,
+  request: NegotiateRequest,
+  context?: StrategyContext
+): NegotiateResponseItem[] {
+  const plan = definition.negotiation;
+  if (plan.kind === 'none') {
+    return [];
+  }
+
+  const liveEnemies = request.enemyTowers.filter((enemy) => enemy.hp > 0);
+  const reputations = context?.memory ? buildReputations(context.memory) : undefined;
+  if (liveEnemies.length === 0) {
+    return [];
+  }
+  if (liveEnemies.length === 1) {
+    const last = liveEnemies[0];
+    if (!plan.allyWithLastEnemy) {
+      return [];
+    }
+    if (reputations?.get(last.playerId)?.betrayer) {
+      context?.trace?.rule('refuse-betrayer', { playerId: last.playerId });
+      return [];
+    }
+    context?.trace?.rule('ally-last-enemy', { allyId: last.playerId });
+    return [{ allyId: last.playerId }];
+  }
+
+  const strongerFirst = (a: Tower, b: Tower) =>
+    plan.strength === 'weighted'
+      ? b.level * 1000 + durability(b) * 10 - (a.level * 1000 + durability(a) * 10)
+      : compareStrength(b, a, definition.levelCap);
+  const leader = (reputations && chooseLeadPlotter(liveEnemies, reputations)) ?? [...liveEnemies].sort(strongerFirst)[0];
+  const candidates = liveEnemies.filter((enemy) => enemy.playerId !== leader.playerId).sort(strongerFirst);
+  const ally = reputations ? rankTrustedAllies(candidates, reputations)[0] : candidates[0];
+  if (!ally) {
+    return [];
+  }
+
+  context?.trace?.rule('ally-against-leader', {
+    allyId: ally.playerId,
+    leaderId: leader.playerId,
+    allyTrust: reputations?.get(ally.playerId)?.trust
+  });
+  return [{ allyId: ally.playerId, attackTargetId: leader.playerId }];
+}
+
+function combat(definition: StrategyDefinition, request: CombatRequest, context?: StrategyContext): CombatAction[] {
+  const resources = Math.max(0, Math.floor(request.playerTower.resources ?? 0));
+  const liveEnemies = request.enemyTowers.filter((enemy) => enemy.hp > 0);
+  if (definition.skipWhenIdle && (resources <= 0 || liveEnemies.length === 0)) {
+    return [];
+  }
+
+  const expectedIncoming = estimateIncomingDamage(request, definition.threat);
+  const state: PipelineState = {
+    request,
+    context,
+    definition,
+    liveEnemies,
+    initialResources: resources,
+    resources,
+    expectedIncoming,
+    neededArmor: Math.max(0, expectedIncoming - request.playerTower.armor),
+    actions: [],
+    attackedTargetIds: new Set()
+  };
+
+  for (const step of definition.combat) {
+    const applicable = runStep(state, step);
+    if (applicable && step.halt === 'when-applicable') {
+      break;
+    }
+  }
+
+  if (definition.discardInvalidPlan) {
+    const violation = findPlanViolation(state.actions, planContextFor(request));
+    if (violation) {
+      context?.trace?.rule('discard-invalid-plan', { violation });
+      return [];
+    }
+  }
+  return state.actions;
+}
+
+/** Builds a strategy that runs `definition`'s negotiation plan and combat steps in order. */
+export function createPipelineStrategy(definition: StrategyDefinition): Strategy {
+  const strategy: Strategy = {
+    negotiate: (request, context) => negotiate(definition, request, context),
+    combat: (request, context) => combat(definition, request, context)
+  };
+  return definition.focusFire ? withFocusFire(strategy) : strategy;
+}
+
+const STEP_NUMBER_FIELDS: Record<string, { required: string[]; optional: string[] }> = {
+  endgame: { required: ['maxOpponents'], optional: [] },
+  'armor-top-up': { required: ['minResources', 'belowArmor', 'maxAmount'], optional: [] },
+  'armor-race': { required: ['margin', 'skipChance'], optional: [] },
+  'armor-all': { required: [], optional: [] },
+  defend: { required: [], optional: [] },
+  upgrade: { required: ['belowLevel'], optional: ['untilTurn', 'maxNeededArmor'] },
+  burst: { required: [], optional: [] },
+  pressure: { required: [], optional: [] },
+  'attack-weakest-hp': { required: ['maxTroops'], optional: [] },
+  'all-in': { required: [], optional: ['minSurplus'] }
+};
+
+const STEP_ENUM_FIELDS: Record<string, Record<string, string[]>> = {
+  burst: { order: ['level-then-cheapest', 'strongest'] },
+  pressure: { order: ['level-attackers-weakest', 'strongest'] },
+  'all-in': { target: ['last-attacker-or-strongest', 'weakest-if-strongest'] }
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumbers(value: Record<string, unknown>, fields: string[], optional: boolean, at: string, issues: ValidationIssue[]) {
+  for (const field of fields) {
+    if (optional && value[field] === undefined) {
+      continue;
+    }
+    if (typeof value[field] !== 'number' || !Number.isFinite(value[field])) {
+      issues.push({ path: `${at}.${field}`, message: 'expected a number' });
+    }
+  }
+}
+
+/** Checks a parsed JSON definition and returns it typed, or throws listing every problem. */
+export function parseStrategyDefinition(raw: unknown): StrategyDefinition {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(raw)) {
+    throw new Error('Strategy definition must be an object');
+  }
+
+  if (typeof raw.name !== 'string' || !/^[a-z0-9-]+$/.test(raw.name)) {
+    issues.push({ path: 'name', message: 'expected lowercase letters, digits and dashes' });
+  }
+  checkNumbers(raw, ['levelCap'], false, '$', issues);
+  if (isRecord(raw.threat)) {
+    checkNumbers(raw.threat, ['diplomacyWeight', 'earlyBuffer', 'lateBuffer', 'lateFromTurn'], false, 'threat', issues);
+  } else {
+    issues.push({ path: 'threat', message: 'expected an object' });
+  }
+  for (const flag of ['skipWhenIdle', 'discardInvalidPlan']) {
+    if (typeof raw[flag] !== 'boolean') {
+      issues.push({ path: flag, message: 'expected a boolean' });
+    }
+  }
+  if (raw.focusFire !== undefined && typeof raw.focusFire !== 'boolean') {
+    issues.push({ path: 'focusFire', message: 'expected a boolean' });
+  }
+
+  const negotiation = raw.negotiation;
+  if (!isRecord(negotiation) || (negotiation.kind !== 'none' && negotiation.kind !== 'ally-against-leader')) {
+    issues.push({ path: 'negotiation.kind', message: 'expected "none" or "ally-against-leader"' });
+  } else if (negotiation.kind === 'ally-against-leader') {
+    if (negotiation.strength !== 'weighted' && negotiation.strength !== 'capped') {
+      issues.push({ path: 'negotiation.strength', message: 'expected "weighted" or "capped"' });
+    }
+    if (typeof negotiation.allyWithLastEnemy !== 'boolean') {
+      issues.push({ path: 'negotiation.allyWithLastEnemy', message: 'expected a boolean' });
+    }
+  }
+
+  if (!Array.isArray(raw.combat)) {
+    issues.push({ path: 'combat', message: 'expected an array of steps' });
+  } else {
+    raw.combat.forEach((step: unknown, index: number) => {
+      const at = `combat[${index}]`;
+      if (!isRecord(step) || typeof step.step !== 'string' || !(step.step in STEP_NUMBER_FIELDS)) {
+        issues.push({ path: `${at}.step`, message: `expected one of ${Object.keys(STEP_NUMBER_FIELDS).join(', ')}` });
+        return;
+      }
+      const fields = STEP_NUMBER_FIELDS[step.step];
+      checkNumbers(step, fields.required, false, at, issues);
+      checkNumbers(step, fields.optional, true, at, issues);
+      for (const [field, allowed] of Object.entries(STEP_ENUM_FIELDS[step.step] ?? {})) {
+        if (!allowed.includes(step[field] as string)) {
+          issues.push({ path: `${at}.${field}`, message: `expected one of ${allowed.join(', ')}` });
+        }
+      }
+      if (step.halt !== undefined && step.halt !== 'never' && step.halt !== 'when-applicable') {
+        issues.push({ path: `${at}.halt`, message: 'expected "never" or "when-applicable"' });
+      }
+      if (step.step === 'defend' && step.reserveForUpgrade !== undefined) {
+        if (isRecord(step.reserveForUpgrade)) {
+          const fields = ['untilTurn', 'belowLevel', 'emergencyMargin'];
+          checkNumbers(step.reserveForUpgrade, fields, false, `${at}.reserveForUpgrade`, issues);
+        } else {
+          issues.push({ path: `${at}.reserveForUpgrade`, message: 'expected an object' });
+        }
+      }
+      if (step.step === 'pressure' && step.split !== undefined && typeof step.split !== 'boolean') {
+        issues.push({ path: `${at}.split`, message: 'expected a boolean' });
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid strategy definition ${String(raw.name)}: ${formatIssues(issues)}`);
+  }
+  return raw as unknown as StrategyDefinition;
+}
+
+/** Reads every `*.json` strategy definition in `dir`; YAML would need a parser dependency, so it is not read. */
+export function loadStrategyDefinitions(dir: string): StrategyDefinition[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => parseStrategyDefinition(JSON.parse(readFileSync(path.join(dir, file), 'utf8'))));
+}
+
+export type { StrategyDefinition } from './types';
@@ -0,0 +1,320 @@
+import type { CombatAction, CombatRequest, Tower } from '../../types';
+import { MAX_LEVEL, upgradeCost } from '../../types';
+import { estimateAllResources, expectedKillCost, recentAttackerIds } from '../../memory';
+import type { ResourceEstimate } from '../../memory';
+import { turnRng } from '../../random';
+import { isEndgame, planEndgame } from '../../endgame';
+import { allocateTroops } from '../../allocation';
+import { compareStrength, durability } from '../shared';
+import type { StrategyContext } from '../types';
+import type {
+  AllInStep,
+  ArmorRaceStep,
+  ArmorTopUpStep,
+  AttackWeakestHpStep,
+  BurstStep,
+  DefendStep,
+  EndgameStep,
+  PipelineStep,
+  PressureStep,
+  StrategyDefinition,
+  UpgradeStep
+} from './types';
+
+export interface PipelineState {
+  request: CombatRequest;
+  context?: StrategyContext;
+  definition: StrategyDefinition;
+  liveEnemies: Tower[];
+  initialResources: number;
+  resources: number;
+  expectedIncoming: number;
+  neededArmor: number;
+  actions: CombatAction[];
+  attackedTargetIds: Set<number>;
+  estimates?: Map<number, ResourceEstimate>;
+}
+
+/** Runs one step; returns whether its condition held, which decides `halt: 'when-applicable'`. */
+type StepRunner<T extends PipelineStep> = (state: PipelineState, step: T) => boolean;
+
+function attack(state: PipelineState, targetId: number, troopCount: number): void {
+  state.actions.push({ type: 'attack', targetId, troopCount });
+  state.attackedTargetIds.add(targetId);
+  state.resources -= troopCount;
+}
+
+function buyArmor(state: PipelineState, amount: number): void {
+  state.actions.push({ type: 'armor', amount });
+  state.resources -= amount;
+}
+
+function hasUpgraded(state: PipelineState): boolean {
+  return state.actions.some((action) => action.type === 'upgrade');
+}
+
+function killEstimates(state: PipelineState): Map<number, ResourceEstimate> | undefined {
+  if (!state.estimates && state.context?.memory) {
+    state.estimates = estimateAllResources(state.context.memory);
+  }
+  return state.estimates;
+}
+
+const endgame: StepRunner<EndgameStep> = (state, step) => {
+  if (state.actions.length > 0 || !isEndgame(state.request, step.maxOpponents)) {
+    return false;
+  }
+  const plan = planEndgame(state.request, state.context);
+  for (const action of plan?.actions ?? []) {
+    if (action.type === 'attack') {
+      attack(state, action.targetId, action.troopCount);
+    } else if (action.type === 'armor') {
+      buyArmor(state, action.amount);
+    } else {
+      state.actions.push(action);
+      state.resources -= upgradeCost(state.request.playerTower.level);
+    }
+  }
+  return plan !== undefined;
+};
+
+const armorTopUp: StepRunner<ArmorTopUpStep> = (state, step) => {
+  if (state.resources < step.minResources || state.request.playerTower.armor >= step.belowArmor) {
+    return false;
+  }
+  const amount = Math.min(step.maxAmount, state.resources);
+  if (amount > 0) {
+    buyArmor(state, amount);
+    state.context?.trace?.rule('armor-top-up', { armor: state.request.playerTower.armor, amount });
+  }
+  return true;
+};
+
+const armorRace: StepRunner<ArmorRaceStep> = (state, step) => {
+  const myArmor = state.request.playerTower.armor;
+  const maxEnemyArmor = Math.max(...state.liveEnemies.map((enemy) => enemy.armor));
+  if (myArmor >= maxEnemyArmor) {
+    return false;
+  }
+  const roll = (state.context?.rng ?? turnRng(state.request))();
+  if (roll <= step.skipChance) {
+    return false;
+  }
+  const amount = Math.min(state.resources, Math.max(0, maxEnemyArmor + step.margin - myArmor));
+  state.context?.trace?.rule('armor-race', { myArmor, maxEnemyArmor, roll, amount });
+  if (amount > 0) {
+    buyArmor(state, amount);
+  }
+  return true;
+};
+
+const armorAll: StepRunner<PipelineStep> = (state) => {
+  if (state.resources <= 0) {
+    return false;
+  }
+  state.context?.trace?.rule('armor-all', { resources: state.resources });
+  buyArmor(state, state.resources);
+  return true;
+};
+
+const defend: StepRunner<DefendStep> = (state, step) => {
+  let armorBudget = state.resources;
+  const reserve = step.reserveForUpgrade;
+  if (reserve && !hasUpgraded(state)) {
+    const price = upgradeCost(state.request.playerTower.level);
+    const canStillUpgrade =
+      state.request.turn <= reserve.untilTurn &&
+      state.request.playerTower.level < reserve.belowLevel &&
+      state.initialResources >= price;
+    if (canStillUpgrade) {
+      const budgetIfReserved = Math.max(0, state.resources - price);
+      const emergency = state.neededArmor > budgetIfReserved + reserve.emergencyMargin;
+      armorBudget = emergency ? state.resources : budgetIfReserved;
+    }
+  }
+
+  const amount = Math.min(armorBudget, Math.floor(state.neededArmor));
+  if (amount <= 0) {
+    return false;
+  }
+  buyArmor(state, amount);
+  state.context?.trace?.rule('defend', { expectedIncoming: state.expectedIncoming, amount });
+  return true;
+};
+
+const upgrade: StepRunner<UpgradeStep> = (state, step) => {
+  const { level } = state.request.playerTower;
+  const applicable =
+    level < step.belowLevel &&
+    (step.untilTurn === undefined || state.request.turn <= step.untilTurn) &&
+    (step.maxNeededArmor === undefined || state.neededArmor <= step.maxNeededArmor);
+  if (!applicable) {
+    return false;
+  }
+  const price = upgradeCost(level);
+  if (level < MAX_LEVEL && !hasUpgraded(state) && state.resources >= price) {
+    state.actions.push({ type: 'upgrade' });
+    state.resources -= price;
+    state.context?.trace?.rule('upgrade', { level, price });
+  }
+  return true;
+};
+
+const burst: StepRunner<BurstStep> = (state, step) => {
+  const estimates = killEstimates(state);
+  const levelCap = state.definition.levelCap;
+  for (const enemy of state.liveEnemies) {
+    state.context?.trace?.candidate(`kill:${enemy.playerId}`, expectedKillCost(enemy, estimates), {
+      budget: state.resources
+    });
+  }
+
+  const target = state.liveEnemies
+    .filter((enemy) => expectedKillCost(enemy, estimates) <= state.resources)
+    .sort((a, b) => {
+      if (step.order === 'strongest') {
+        return compareStrength(b, a, levelCap);
+      }
+      if (a.level !== b.level) {
+        return b.level - a.level;
+      }
+      return expectedKillCost(a, estimates) - expectedKillCost(b, estimates);
+    })[0];
+  if (!target) {
+    return false;
+  }
+
+  const troops = Math.min(state.resources, expectedKillCost(target, estimates));
+  if (troops > 0) {
+    attack(state, target.playerId, troops);
+    state.context?.trace?.rule('burst', { targetId: target.playerId, troops });
+  }
+  return true;
+};
+
+const pressure: StepRunner<PressureStep> = (state, step) => {
+  if (state.resources <= 0) {
+    return false;
+  }
+  const myId = state.request.playerTower.playerId;
+  const attackers = new Set(
+    state.request.previousAttacks.filter((a) => a.action.targetId === myId).map((a) => a.playerId)
+  );
+  const levelCap = state.definition.levelCap;
+  const order = (a: Tower, b: Tower) => {
+    if (step.order === 'strongest') {
+      return compareStrength(b, a, levelCap);
+    }
+    if (a.level !== b.level) {
+      return b.level - a.level;
+    }
+    const attackedUs = (attackers.has(b.playerId) ? 1 : 0) - (attackers.has(a.playerId) ? 1 : 0);
+    return attackedUs !== 0 ? attackedUs : durability(a) - durability(b);
+  };
+
+  const candidates = state.liveEnemies.filter((enemy) => !state.attackedTargetIds.has(enemy.playerId));
+  if (step.split) {
+    const allocations = allocateTroops(state.resources, candidates, { estimates: killEstimates(state), preference: order });
+    if (allocations.length === 0) {
+      return false;
+    }
+    state.context?.trace?.rule('split-pressure', { allocations });
+    for (const allocation of allocations) {
+      attack(state, allocation.targetId, allocation.troops);
+    }
+    return true;
+  }
+
+  const target = candidates.sort(order)[0];
+  if (!target) {
+    return false;
+  }
+
+  state.context?.trace?.rule('pressure', { targetId: target.playerId, troops: state.resources });
+  attack(state, target.playerId, state.resources);
+  return true;
+};
+
+const attackWeakestHp: StepRunner<AttackWeakestHpStep> = (state, step) => {
+  const target = [...state.liveEnemies].sort((a, b) => a.hp - b.hp)[0];
+  if (state.resources < 1 || !target) {
+    return false;
+  }
+  const troops = Math.min(state.resources, step.maxTroops);
+  attack(state, target.playerId, troops);
+  state.context?.trace?.rule('attack-weakest-hp', { targetId: target.playerId, hp: target.hp, troops });
+  return true;
+};
+
+function lastAttackerOrStrongest(state: PipelineState): Tower | undefined {
+  const liveById = new Map(state.liveEnemies.map((enemy) => [enemy.playerId, enemy]));
+  const myId = state.request.playerTower.playerId;
+  const attackerIds = state.request.previousAttacks
+    .filter((a) => a.action.targetId === myId)
+    .map((a) => a.playerId)
+    .reverse();
+  if (state.context?.memory) {
+    attackerIds.push(...recentAttackerIds(state.context.memory));
+  }
+  const lastAttacker = attackerIds.map((id) => liveById.get(id)).find((enemy) => enemy !== undefined);
+
+  return (
+    lastAttacker ??
+    [...state.liveEnemies].sort((a, b) => b.level - a.level || durability(b) - durability(a) || a.playerId - b.playerId)[0]
+  );
+}
+
+const allIn: StepRunner<AllInStep> = (state, step) => {
+  const levelCap = state.definition.levelCap;
+  let target: Tower | undefined;
+
+  if (step.target === 'weakest-if-strongest') {
+    const strongest = state.liveEnemies.every(
+      (enemy) => compareStrength(state.request.playerTower, enemy, levelCap) > 0
+    );
+    if (!strongest) {
+      return false;
+    }
+    target = [...state.liveEnemies].sort(
+      (a, b) => compareStrength(a, b, levelCap) || a.playerId - b.playerId
+    )[0];
+  } else {
+    target = lastAttackerOrStrongest(state);
+  }
+
+  if (!target || state.resources <= 0) {
+    return true;
+  }
+  if (step.minSurplus !== undefined && target.armor >= state.resources - step.minSurplus) {
+    state.context?.trace?.rule('hold-fire', { targetId: target.playerId, targetArmor: target.armor });
+    return true;
+  }
+  state.context?.trace?.rule('all-in', { targetId: target.playerId, troops: state.resources });
+  attack(state, target.playerId, state.resources);
+  return true;
+};
+
+export function runStep(state: PipelineState, step: PipelineStep): boolean {
+  switch (step.step) {
+    case 'endgame':
+      return endgame(state, step);
+    case 'armor-top-up':
+      return armorTopUp(state, step);
+    case 'armor-race':
+      return armorRace(state, step);
+    case 'armor-all':
+      return armorAll(state, step);
+    case 'defend':
+      return defend(state, step);
+    case 'upgrade':
+      return upgrade(state, step);
+    case 'burst':
+      return burst(state, step);
+    case 'pressure':
+      return pressure(state, step);
+    case 'attack-weakest-hp':
+      return attackWeakestHp(state, step);
+    case 'all-in':
+      return allIn(state, step);
+  }
+}
@@ -0,0 +1,134 @@
+import type { ThreatModel } from '../shared';
+
+/** After a step: `never` keeps going; `when-applicable` ends the turn once the step's condition held. */
+export type HaltMode = 'never' | 'when-applicable';
+
+/** Buy `maxAmount` armor (or what we have) while below `belowArmor` and holding at least `minResources`. */
+export interface ArmorTopUpStep {
+  step: 'armor-top-up';
+  minResources: number;
+  belowArmor: number;
+  maxAmount: number;
+  halt?: HaltMode;
+}
+
+/** When an enemy out-armors us, match its armor plus `margin`; skipped with probability `skipChance`. */
+export interface ArmorRaceStep {
+  step: 'armor-race';
+  margin: number;
+  skipChance: number;
+  halt?: HaltMode;
+}
+
+/** Put every remaining resource into armor. */
+export interface ArmorAllStep {
+  step: 'armor-all';
+  halt?: HaltMode;
+}
+
+/**
+ * Buy armor to cover the expected incoming damage (see the definition's `threat`).
+ * With `reserveForUpgrade`, the price of a pending upgrade is kept back unless the threat
+ * exceeds what is left by more than `emergencyMargin`.
+ */
+export interface DefendStep {
+  step: 'defend';
+  reserveForUpgrade?: { untilTurn: number; belowLevel: number; emergencyMargin: number };
+  halt?: HaltMode;
+}
+
+/**
+ * Upgrade when below `belowLevel` (and, if set, no later than `untilTurn` and with the
+ * armor still needed no more than `maxNeededArmor`), if it is affordable now.
+ */
+export interface UpgradeStep {
+  step: 'upgrade';
+  belowLevel: number;
+  untilTurn?: number;
+  maxNeededArmor?: number;
+  halt?: HaltMode;
+}
+
+/** Finish off an enemy we can kill with the remaining budget. */
+export interface BurstStep {
+  step: 'burst';
+  /** `level-then-cheapest`: highest level, then lowest kill cost; `strongest`: capped strength. */
+  order: 'level-then-cheapest' | 'strongest';
+  halt?: HaltMode;
+}
+
+/**
+ * Send every remaining troop at one enemy not attacked yet this turn. With `split`, the troops
+ * are shared out by `allocateTroops` instead: every kill they cover, then the rest in `order`.
+ */
+export interface PressureStep {
+  step: 'pressure';
+  /** `level-attackers-weakest`: highest level, then whoever hit us, then lowest durability. */
+  order: 'level-attackers-weakest' | 'strongest';
+  split?: boolean;
+  halt?: HaltMode;
+}
+
+/** Send a fixed-size attack at the enemy with the lowest hp. */
+export interface AttackWeakestHpStep {
+  step: 'attack-weakest-hp';
+  maxTroops: number;
+  halt?: HaltMode;
+}
+
+/**
+ * All-in attack. `last-attacker-or-strongest` hits whoever attacked us last (else the highest
+ * level, most durable enemy) and holds fire unless we out-number its armor by `minSurplus`.
+ * `weakest-if-strongest` hits the weakest enemy, but only while we are the strongest tower.
+ */
+export interface AllInStep {
+  step: 'all-in';
+  target: 'last-attacker-or-strongest' | 'weakest-if-strongest';
+  minSurplus?: number;
+  halt?: HaltMode;
+}
+
+/** Hand the turn to the endgame planner once at most `maxOpponents` enemies are left. */
+export interface EndgameStep {
+  step: 'endgame';
+  maxOpponents: number;
+  halt?: HaltMode;
+}
+
+export type PipelineStep =
+  | EndgameStep
+  | ArmorTopUpStep
+  | ArmorRaceStep
+  | ArmorAllStep
+  | DefendStep
+  | UpgradeStep
+  | BurstStep
+  | PressureStep
+  | AttackWeakestHpStep
+  | AllInStep;
+
+export type NegotiationPlan =
+  | { kind: 'none' }
+  | {
+      kind: 'ally-against-leader';
+      /** `weighted`: level * 1000 + durability * 10; `capped`: capped-level strength. */
+      strength: 'weighted' | 'capped';
+      /** Offer an alliance to the last enemy standing instead of proposing nothing. */
+      allyWithLastEnemy: boolean;
+    };
+
+export interface StrategyDefinition {
+  name: string;
+  description?: string;
+  /** Levels above this count the same when comparing strength. */
+  levelCap: number;
+  threat: ThreatModel;
+  /** Answer nothing when we have no resources or no live enemies. */
+  skipWhenIdle: boolean;
+  /** Discard the whole plan if it breaks an engine rule. */
+  discardInvalidPlan: boolean;
+  negotiation: NegotiationPlan;
+  /** Propose focus-fire kills in negotiation and honour them in combat, ahead of the plan and steps. */
+  focusFire?: boolean;
+  combat: PipelineStep[];
+}
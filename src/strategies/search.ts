@@ -0,0 +1,218 @@
+import type { CombatAction, CombatRequest, NegotiateRequest, NegotiateResponseItem, Tower } from '../types';
+import { MAX_LEVEL, resourcesPerTurn, upgradeCost } from '../types';
+import { computeCombatActions } from '../combat';
+import { estimateResources, expectedKillCost } from '../memory';
+import type { GameMemory } from '../memory';
+import { DEFAULT_SIMULATOR_CONFIG, buildCombatRequest, isAlive, resolveCombat, startTurn } from '../simulator/engine';
+import type { GameState, PlayerPlan } from '../simulator/types';
+import { describeActions } from '../trace';
+import { BUILTIN_PIPELINES } from './builtin';
+import type { Strategy, StrategyContext } from './types';
+
+const hybridLiteStrategy = BUILTIN_PIPELINES['hybrid-lite'];
+
+/**
+ * Most candidates scored per decision, in generation order. A fixed count rather than a time
+ * budget keeps the choice independent of machine speed, so seeded games and replays repeat.
+ */
+const MAX_CANDIDATES = 120;
+/** Candidates kept in the decision trace, best first. */
+const TRACED_CANDIDATES = 10;
+/** Turns simulated per candidate, including the turn being decided. */
+const LOOKAHEAD_TURNS = 2;
+/** The budget is split into this many equal shares when enumerating plans. */
+const BUDGET_STEPS = 4;
+const MAX_ATTACK_TARGETS = 2;
+
+const ELIMINATION_BONUS = 300;
+const DEATH_PENALTY = 100000;
+
+function buildPlan(upgrade: boolean, armor: number, attacks: Map<number, number>): CombatAction[] {
+  const actions: CombatAction[] = [];
+  if (armor > 0) {
+    actions.push({ type: 'armor', amount: armor });
+  }
+  for (const [targetId, troopCount] of attacks) {
+    if (troopCount > 0) {
+      actions.push({ type: 'attack', targetId, troopCount });
+    }
+  }
+  if (upgrade) {
+    actions.push({ type: 'upgrade' });
+  }
+  return actions;
+}
+
+/** Every way to hand out `steps` shares to `buckets` buckets, the most to the first bucket first. */
+function splits(steps: number, buckets: number): number[][] {
+  if (buckets === 1) {
+    return [[steps]];
+  }
+  const result: number[][] = [];
+  for (let first = steps; first >= 0; first--) {
+    for (const rest of splits(steps - first, buckets - 1)) {
+      result.push([first, ...rest]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Legal plans under the budget: with and without an upgrade, exact-kill plans for every
+ * enemy we can finish this turn, then the rest split in `BUDGET_STEPS` shares between
+ * armor and up to `MAX_ATTACK_TARGETS` enemies, armor-heavy first. With many enemies the
+ * `MAX_CANDIDATES` cap then drops the most scattered attacks rather than kills or armor.
+ */
+function generateCandidates(request: CombatRequest, liveEnemies: Tower[], memory?: GameMemory): CombatAction[][] {
+  const resources = Math.max(0, Math.floor(request.playerTower.resources ?? 0));
+  const level = request.playerTower.level;
+  const upgradeOptions = level < MAX_LEVEL && resources >= upgradeCost(level) ? [false, true] : [false];
+  const estimates = new Map(
+    liveEnemies.flatMap((enemy) => {
+      const estimate = memory ? estimateResources(memory, enemy.playerId) : undefined;
+      return estimate ? [[enemy.playerId, estimate] as const] : [];
+    })
+  );
+  const byUpgrade = upgradeOptions.map((upgrade) => {
+    const candidates: CombatAction[][] = [];
+    const budget = resources - (upgrade ? upgradeCost(level) : 0);
+    const share = budget / BUDGET_STEPS;
+
+    for (const enemy of liveEnemies) {
+      const killCost = expectedKillCost(enemy, estimates);
+      if (killCost <= budget) {
+        candidates.push(buildPlan(upgrade, budget - killCost, new Map([[enemy.playerId, killCost]])));
+      }
+    }
+
+    for (const split of splits(BUDGET_STEPS, liveEnemies.length + 1)) {
+      const targeted = split.slice(1).filter((steps) => steps > 0).length;
+      if (targeted > MAX_ATTACK_TARGETS) {
+        continue;
+      }
+      // Rounding goes to armor so the plan never exceeds the budget.
+      const attacks = new Map(liveEnemies.map((enemy, i) => [enemy.playerId, Math.floor(split[i + 1] * share)]));
+      const troops = [...attacks.values()].reduce((sum, count) => sum + count, 0);
+      candidates.push(buildPlan(upgrade, budget - troops, attacks));
+    }
+    return candidates;
+  });
+
+  // Alternate with and without an upgrade so `MAX_CANDIDATES` cuts both lists evenly.
+  const interleaved: CombatAction[][] = [];
+  const longest = Math.max(...byUpgrade.map((candidates) => candidates.length));
+  for (let i = 0; i < longest; i++) {
+    for (const candidates of byUpgrade) {
+      if (i < candidates.length) {
+        interleaved.push(candidates[i]);
+      }
+    }
+  }
+  return interleaved;
+}
+
+/** Builds a simulator state from our view of the game; enemy banks come from memory or one turn of income. */
+function stateFromRequest(request: CombatRequest, memory?: GameMemory): GameState {
+  const enemies = request.enemyTowers.map((enemy) => ({
+    ...enemy,
+    resources:
+      (memory ? estimateResources(memory, enemy.playerId)?.available : undefined) ?? resourcesPerTurn(enemy.level)
+  }));
+  return {
+    gameId: request.gameId,
+    turn: request.turn,
+    towers: [{ ...request.playerTower, resources: request.playerTower.resources ?? 0 }, ...enemies],
+    previousAttacks: request.previousAttacks,
+    eliminations: []
+  };
+}
+
+/** Opponents are assumed to play the simple legacy rules. */
+function opponentPlans(state: GameState, myId: number): PlayerPlan[] {
+  return state.towers
+    .filter((tower) => isAlive(tower) && tower.playerId !== myId)
+    .map((tower) => ({
+      playerId: tower.playerId,
+      actions: computeCombatActions(buildCombatRequest(state, tower.playerId, []))
+    }));
+}
+
+function evaluate(state: GameState, myId: number): number {
+  let score = 0;
+  for (const tower of state.towers) {
+    if (tower.playerId === myId) {
+      if (!isAlive(tower)) {
+        return -DEATH_PENALTY;
+      }
+      score += tower.hp * 2 + tower.armor + tower.level * 40 + (tower.resources ?? 0) * 0.5;
+    } else {
+      score += isAlive(tower) ? -(tower.hp + tower.armor) - tower.level * 20 : ELIMINATION_BONUS;
+    }
+  }
+  return score;
+}
+
+/** Plays `plan` this turn and our rule-based fallback afterwards, against assumed opponent responses. */
+function simulatePlan(start: GameState, myId: number, plan: CombatAction[]): number {
+  const config = DEFAULT_SIMULATOR_CONFIG;
+  let state = resolveCombat(start, [{ playerId: myId, actions: plan }, ...opponentPlans(start, myId)], config).state;
+
+  for (let depth = 1; depth < LOOKAHEAD_TURNS; depth++) {
+    const me = state.towers.find((tower) => tower.playerId === myId);
+    if (!me || !isAlive(me) || state.towers.filter(isAlive).length <= 1) {
+      break;
+    }
+    state = startTurn(state);
+    const ours = hybridLiteStrategy.combat(buildCombatRequest(state, myId, []));
+    state = resolveCombat(state, [{ playerId: myId, actions: ours }, ...opponentPlans(state, myId)], config).state;
+  }
+
+  return evaluate(state, myId);
+}
+
+function searchNegotiate(request: NegotiateRequest, context?: StrategyContext): NegotiateResponseItem[] {
+  return hybridLiteStrategy.negotiate(request, context);
+}
+
+/**
+ * Scores up to `MAX_CANDIDATES` plans by simulating `LOOKAHEAD_TURNS` turns and picks the best.
+ * The rule-based hybrid-lite plan is scored first. The turn deadline is only an emergency
+ * cutoff: hitting it is recorded in the trace, since the answer then depends on timing.
+ */
+function searchCombat(request: CombatRequest, context?: StrategyContext): CombatAction[] {
+  const deadline = context?.deadline ?? Infinity;
+  const fallback = hybridLiteStrategy.combat(request, { memory: context?.memory });
+  const liveEnemies = request.enemyTowers.filter((enemy) => enemy.hp > 0);
+  const resources = Math.max(0, Math.floor(request.playerTower.resources ?? 0));
+  if (resources <= 0 || liveEnemies.length === 0) {
+    return fallback;
+  }
+
+  const myId = request.playerTower.playerId;
+  const start = stateFromRequest(request, context?.memory);
+  const scored = [{ plan: fallback, score: simulatePlan(start, myId, fallback) }];
+  const candidates = generateCandidates(request, liveEnemies, context?.memory).slice(0, MAX_CANDIDATES);
+  let cutOff = false;
+
+  for (const candidate of candidates) {
+    if (Date.now() > deadline) {
+      cutOff = true;
+      break;
+    }
+    scored.push({ plan: candidate, score: simulatePlan(start, myId, candidate) });
+  }
+
+  // Stable sort keeps the fallback plan ahead of equally scored candidates.
+  scored.sort((a, b) => b.score - a.score);
+  const trace = context?.trace;
+  trace?.rule('search', { evaluated: scored.length, generated: candidates.length + 1, cutOff });
+  for (const { plan, score } of scored.slice(0, TRACED_CANDIDATES)) {
+    trace?.candidate(describeActions(plan), score);
+  }
+  return scored[0].plan;
+}
+
+export const searchStrategy: Strategy = {
+  negotiate: searchNegotiate,
+  combat: searchCombat
+};
@@ -0,0 +1,38 @@
+import { getStrategy } from './index';
+import type { Strategy, StrategyName } from './types';
+
+export interface ResolvedStrategy {
+  name: StrategyName;
+  strategy: Strategy;
+}
+
+export interface StrategySelector {
+  getActive: () => StrategyName;
+  setActive: (name: StrategyName) => void;
+  getGameOverrides: () => Record<number, StrategyName>;
+  setGameOverride: (gameId: number, name: StrategyName) => void;
+  clearGameOverride: (gameId: number) => boolean;
+  /** Strategy that should answer for `gameId`: its override if one is set, else the active one. */
+  resolve: (gameId?: number) => ResolvedStrategy;
+}
+
+export function createStrategySelector(initial: StrategyName): StrategySelector {
+  let active = initial;
+  const overrides = new Map<number, StrategyName>();
+
+  return {
+    getActive: () => active,
+    setActive: (name) => {
+      active = name;
+    },
+    getGameOverrides: () => Object.fromEntries(overrides),
+    setGameOverride: (gameId, name) => {
+      overrides.set(gameId, name);
+    },
+    clearGameOverride: (gameId) => overrides.delete(gameId),
+    resolve: (gameId) => {
+      const name = (gameId !== undefined ? overrides.get(gameId) : undefined) ?? active;
+      return { name, strategy: getStrategy(name) };
+    }
+  };
+}
@@ -0,0 +1,37 @@
+import type { CombatRequest, Tower } from '../types';
+
+export function durability(tower: Tower): number {
+  return tower.hp + tower.armor;
+}
+
+/** Orders towers by level (capped at `levelCap`, so levels above it count the same), then durability. */
+export function compareStrength(a: Tower, b: Tower, levelCap: number): number {
+  const levelDiff = Math.min(a.level, levelCap) - Math.min(b.level, levelCap);
+  if (levelDiff !== 0) {
+    return levelDiff;
+  }
+  return durability(a) - durability(b);
+}
+
+export interface ThreatModel {
+  /** Expected troops per diplomacy entry that names us as the attack target. */
+  diplomacyWeight: number;
+  /** Extra armor kept as a buffer before `lateFromTurn`, and from then on. */
+  earlyBuffer: number;
+  lateBuffer: number;
+  lateFromTurn: number;
+}
+
+/** Troops we expect this turn: last turn's hits on us, announced plots against us and a risk buffer. */
+export function estimateIncomingDamage(request: CombatRequest, threat: ThreatModel): number {
+  const myId = request.playerTower.playerId;
+  const recentIncoming = request.previousAttacks
+    .filter((attack) => attack.action.targetId === myId)
+    .reduce((sum, attack) => sum + Math.max(0, Math.floor(attack.action.troopCount)), 0);
+
+  const diplomacyThreat =
+    request.diplomacy.filter((entry) => entry.action.attackTargetId === myId).length * threat.diplomacyWeight;
+  const riskBuffer = request.turn >= threat.lateFromTurn ? threat.lateBuffer : threat.earlyBuffer;
+
+  return recentIncoming + diplomacyThreat + riskBuffer;
+}
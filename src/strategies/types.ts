@@ -1,8 +1,33 @@
 import type { CombatRequest, NegotiateRequest, CombatAction, NegotiateResponseItem } from '../types';
+import type { GameMemory } from '../memory/types';
+import type { DecisionRecorder } from '../trace';
+import type { Rng } from '../random';
+
+/** Extra per-game state handed to strategies alongside the engine request. */
+export interface StrategyContext {
+  /** History of this game so far; absent when the caller keeps none. */
+  memory?: GameMemory;
+  /** Records which rules fired and which candidates were weighed, for decision traces. */
+  trace?: DecisionRecorder;
+  /** Source of all strategy randomness; defaults to `turnRng(request)` so answers are reproducible. */
+  rng?: Rng;
+  /** `Date.now()` by which the caller needs an answer; strategies that search should stop before it. */
+  deadline?: number;
+}
 
 export interface Strategy {
-  negotiate: (request: NegotiateRequest) => NegotiateResponseItem[];
-  combat: (request: CombatRequest) => CombatAction[];
+  negotiate: (request: NegotiateRequest, context?: StrategyContext) => NegotiateResponseItem[];
+  combat: (request: CombatRequest, context?: StrategyContext) => CombatAction[];
 }
 
-export type StrategyName = 'legacy' | 'hybrid-lite' | 'capped-buff' | 'tempo-threat' | 'armor-control';
+export type BuiltinStrategyName =
+  | 'legacy'
+  | 'hybrid-lite'
+  | 'capped-buff'
+  | 'tempo-threat'
+  | 'armor-control'
+  | 'search'
+  | 'meta';
+
+/** Built-in strategies, plus pipelines registered from definitions as `config:<name>`. */
+export type StrategyName = BuiltinStrategyName | `config:${string}`;
@@ -0,0 +1,99 @@
+/**
+ * Structured decision traces: what each strategy considered and why it chose its actions.
+ */
+
+export interface TraceRule {
+  name: string;
+  detail?: Record<string, unknown>;
+}
+
+export interface TraceCandidate {
+  label: string;
+  score?: number;
+  detail?: Record<string, unknown>;
+}
+
+export interface DecisionTrace {
+  gameId: number;
+  turn: number;
+  phase: 'negotiate' | 'combat';
+  strategy: string;
+  rules: TraceRule[];
+  candidates: TraceCandidate[];
+  actions: unknown[];
+}
+
+/** Handed to strategies through `StrategyContext.trace`; every method is cheap enough to call unconditionally. */
+export interface DecisionRecorder {
+  rule: (name: string, detail?: Record<string, unknown>) => void;
+  candidate: (label: string, score?: number, detail?: Record<string, unknown>) => void;
+  rules: () => TraceRule[];
+  candidates: () => TraceCandidate[];
+}
+
+export function createDecisionRecorder(): DecisionRecorder {
+  const rules: TraceRule[] = [];
+  const candidates: TraceCandidate[] = [];
+
+  return {
+    rule: (name, detail) => {
+      rules.push(detail ? { name, detail } : { name });
+    },
+    candidate: (label, score, detail) => {
+      candidates.push({ label, ...(score !== undefined && { score }), ...(detail && { detail }) });
+    },
+    rules: () => [...rules],
+    candidates: () => [...candidates]
+  };
+}
+
+export interface TraceStore {
+  record: (trace: DecisionTrace) => void;
+  get: (gameId: number) => DecisionTrace[] | undefined;
+}
+
+/** Keeps traces for the most recent `maxGames` games, oldest game evicted first. */
+export function createTraceStore(maxGames = 100): TraceStore {
+  const games = new Map<number, DecisionTrace[]>();
+
+  return {
+    record: (trace) => {
+      const traces = games.get(trace.gameId) ?? [];
+      traces.push(trace);
+      games.delete(trace.gameId);
+      games.set(trace.gameId, traces);
+      while (games.size > maxGames) {
+        games.delete(games.keys().next().value!);
+      }
+    },
+    get: (gameId) => games.get(gameId)
+  };
+}
+
+function describeAction(action: unknown): string {
+  const a = action as { type?: string; amount?: number; targetId?: number; troopCount?: number; allyId?: number };
+  if (a.type === 'armor') {
+    return `armor:${a.amount}`;
+  }
+  if (a.type === 'attack') {
+    return `attack:${a.targetId}x${a.troopCount}`;
+  }
+  if (a.type === 'upgrade') {
+    return 'upgrade';
+  }
+  if (a.allyId !== undefined) {
+    return `ally:${a.allyId}`;
+  }
+  return 'unknown';
+}
+
+/** Compact form of a response, e.g. `armor:6,attack:2x14,upgrade`; `-` when empty. */
+export function describeActions(actions: unknown[]): string {
+  return actions.map(describeAction).join(',') || '-';
+}
+
+/** One-line summary for the [KW-BOT] log, e.g. `rules=defend,burst cands=3 actions=armor:6,attack:2x14`. */
+export function summarizeTrace(trace: DecisionTrace): string {
+  const rules = trace.rules.map((rule) => rule.name).join(',') || '-';
+  return `rules=${rules} cands=${trace.candidates.length} actions=${describeActions(trace.actions)}`;
+}
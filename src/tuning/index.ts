@@ -0,0 +1,11 @@
+export {
+  TUNABLE_STRATEGIES,
+  createTunedStrategy,
+  defaultParams,
+  definitionWithParams,
+  findTunableStrategy,
+  sampleParams
+} from './space';
+export type { ParameterSet, ParameterSpec, TunableStrategy } from './space';
+export { formatTuningReport, tuneStrategy, wilsonInterval } from './tuner';
+export type { ConfidenceInterval, ScoredParams, TuningOptions, TuningReport } from './tuner';
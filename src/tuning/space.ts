@@ -0,0 +1,136 @@
+import { BUILTIN_DEFINITIONS } from '../strategies/builtin';
+import type { DefinedStrategyName } from '../strategies/builtin';
+import { createPipelineStrategy, parseStrategyDefinition } from '../strategies/pipeline';
+import type { StrategyDefinition } from '../strategies/pipeline';
+import type { Rng } from '../random';
+import type { Strategy } from '../strategies/types';
+
+/**
+ * One searchable number: sampled uniformly from `[min, max]`, rounded when `integer`, and written
+ * to every `paths` entry of the definition, such as `combat.0.margin`.
+ */
+export interface ParameterSpec {
+  name: string;
+  paths: string[];
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+export type ParameterSet = Record<string, number>;
+
+/** A built-in strategy whose definition has numbers worth searching over. */
+export interface TunableStrategy {
+  name: DefinedStrategyName;
+  space: ParameterSpec[];
+}
+
+/** The object holding the last key of `path`, and that key. */
+function locate(root: unknown, path: string): [Record<string, unknown>, string] {
+  const keys = path.split('.');
+  const holder = keys.slice(0, -1).reduce<unknown>((node, key) => (node as Record<string, unknown>)?.[key], root);
+  if (typeof holder !== 'object' || holder === null) {
+    throw new Error(`No "${path}" in the strategy definition`);
+  }
+  return [holder as Record<string, unknown>, keys[keys.length - 1]];
+}
+
+const armorControl: TunableStrategy = {
+  name: 'armor-control',
+  space: [
+    { name: 'armorSkipChance', paths: ['combat.0.skipChance'], min: 0, max: 0.8 },
+    { name: 'armorMargin', paths: ['combat.0.margin'], min: 0, max: 20, integer: true },
+    { name: 'targetLevel', paths: ['combat.1.belowLevel'], min: 2, max: 5, integer: true },
+    { name: 'minAttackSurplus', paths: ['combat.2.minSurplus'], min: 0, max: 100, integer: true }
+  ]
+};
+
+const tempoThreat: TunableStrategy = {
+  name: 'tempo-threat',
+  space: [
+    {
+      name: 'upgradeTargetLevel',
+      paths: ['combat.1.belowLevel', 'combat.2.reserveForUpgrade.belowLevel', 'combat.3.belowLevel'],
+      min: 2,
+      max: 5,
+      integer: true
+    },
+    {
+      name: 'earlyUpgradeTurnLimit',
+      paths: ['combat.1.untilTurn', 'combat.2.reserveForUpgrade.untilTurn', 'combat.3.untilTurn'],
+      min: 8,
+      max: 35,
+      integer: true
+    },
+    { name: 'lateFromTurn', paths: ['threat.lateFromTurn'], min: 5, max: 35, integer: true },
+    { name: 'fastUpgradeMaxNeededArmor', paths: ['combat.1.maxNeededArmor'], min: 0, max: 30, integer: true },
+    { name: 'emergencyMargin', paths: ['combat.2.reserveForUpgrade.emergencyMargin'], min: 0, max: 60, integer: true },
+    { name: 'diplomacyWeight', paths: ['threat.diplomacyWeight'], min: 0, max: 15 },
+    { name: 'earlyBuffer', paths: ['threat.earlyBuffer'], min: 0, max: 20 },
+    { name: 'lateBuffer', paths: ['threat.lateBuffer'], min: 0, max: 30 },
+    { name: 'endgameOpponents', paths: ['combat.0.maxOpponents'], min: 0, max: 2, integer: true }
+  ]
+};
+
+const hybridLite: TunableStrategy = {
+  name: 'hybrid-lite',
+  space: [
+    { name: 'diplomacyWeight', paths: ['threat.diplomacyWeight'], min: 0, max: 15 },
+    { name: 'earlyBuffer', paths: ['threat.earlyBuffer'], min: 0, max: 20 },
+    { name: 'lateBuffer', paths: ['threat.lateBuffer'], min: 0, max: 30 },
+    { name: 'lateFromTurn', paths: ['threat.lateFromTurn'], min: 5, max: 30, integer: true },
+    { name: 'upgradeTargetLevel', paths: ['combat.3.belowLevel'], min: 2, max: 5, integer: true },
+    { name: 'earlyUpgradeTurnLimit', paths: ['combat.3.untilTurn'], min: 5, max: 30, integer: true },
+    { name: 'endgameOpponents', paths: ['combat.0.maxOpponents'], min: 0, max: 2, integer: true }
+  ]
+};
+
+export const TUNABLE_STRATEGIES: TunableStrategy[] = [armorControl, tempoThreat, hybridLite];
+
+export function findTunableStrategy(name: string): TunableStrategy | undefined {
+  return TUNABLE_STRATEGIES.find((tunable) => tunable.name === name);
+}
+
+/** The parameter set the built-in definition ships with. */
+export function defaultParams(tunable: TunableStrategy): ParameterSet {
+  const definition = BUILTIN_DEFINITIONS[tunable.name];
+  return Object.fromEntries(
+    tunable.space.map((spec) => {
+      const [holder, key] = locate(definition, spec.paths[0]);
+      return [spec.name, holder[key] as number];
+    })
+  );
+}
+
+/**
+ * The built-in definition with `params` written in; parameters it does not name keep their defaults.
+ * Given a `name`, the result is a definition to deploy through `STRATEGY_DEFINITIONS_DIR` as `config:<name>`.
+ */
+export function definitionWithParams(tunable: TunableStrategy, params: ParameterSet, name?: string): StrategyDefinition {
+  const definition = structuredClone(BUILTIN_DEFINITIONS[tunable.name]) as StrategyDefinition & Record<string, unknown>;
+  if (name !== undefined) {
+    definition.name = name;
+    definition.description = `${tunable.name} with tuned parameters ${JSON.stringify(params)}`;
+  }
+  for (const spec of tunable.space) {
+    for (const path of params[spec.name] === undefined ? [] : spec.paths) {
+      const [holder, key] = locate(definition, path);
+      holder[key] = params[spec.name];
+    }
+  }
+  return parseStrategyDefinition(definition);
+}
+
+export function createTunedStrategy(tunable: TunableStrategy, params: ParameterSet): Strategy {
+  return createPipelineStrategy(definitionWithParams(tunable, params));
+}
+
+/** Draws a parameter set uniformly from `tunable`'s space. */
+export function sampleParams(tunable: TunableStrategy, rng: Rng): ParameterSet {
+  const params: ParameterSet = {};
+  for (const spec of tunable.space) {
+    const value = spec.min + rng() * (spec.max - spec.min);
+    params[spec.name] = spec.integer ? Math.round(value) : Number(value.toFixed(3));
+  }
+  return params;
+}
@@ -0,0 +1,159 @@
+import { createRng, hashSeed, shuffle } from '../random';
+import { getStrategy } from '../strategies';
+import type { StrategyName } from '../strategies/types';
+import { playGame } from '../simulator';
+import type { SimulatorConfig } from '../simulator';
+import { createTunedStrategy, defaultParams, sampleParams } from './space';
+import type { ParameterSet, TunableStrategy } from './space';
+
+const CANDIDATE_NAME = 'candidate';
+/** z for a two-sided 95% interval. */
+const Z_95 = 1.96;
+const CONFIRM_SEED_SALT = 0x5eed;
+
+export interface TuningOptions {
+  /** Parameter sets to sample, including the defaults. */
+  samples: number;
+  /** Games per sample during the search; every sample plays the same seeds. */
+  games: number;
+  /** Fresh games used to re-score the finalists, so their win rates are not inflated by selection. */
+  confirmGames: number;
+  /** How many of the best samples to re-score and report. */
+  top: number;
+  playersPerGame: number;
+  seed: number;
+  /** Who the candidate plays against; defaults to the strategy's own defaults plus the other built-ins. */
+  opponents: StrategyName[];
+  config?: Partial<SimulatorConfig>;
+}
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+export interface ScoredParams {
+  params: ParameterSet;
+  wins: number;
+  games: number;
+  winRate: number;
+  /** Wilson score interval at 95% confidence. */
+  confidence: ConfidenceInterval;
+}
+
+export interface TuningReport {
+  strategy: StrategyName;
+  method: 'random-search';
+  seed: number;
+  samples: number;
+  gamesPerSample: number;
+  confirmGames: number;
+  playersPerGame: number;
+  opponents: StrategyName[];
+  baseline: ScoredParams;
+  best: ScoredParams[];
+}
+
+/** Wilson score interval for `wins` out of `games`; stays inside [0, 1] even at 0 or all wins. */
+export function wilsonInterval(wins: number, games: number, z = Z_95): ConfidenceInterval {
+  if (games === 0) {
+    return { low: 0, high: 1 };
+  }
+  const rate = wins / games;
+  const denominator = 1 + (z * z) / games;
+  const centre = rate + (z * z) / (2 * games);
+  const spread = z * Math.sqrt((rate * (1 - rate)) / games + (z * z) / (4 * games * games));
+  return {
+    low: Math.max(0, (centre - spread) / denominator),
+    high: Math.min(1, (centre + spread) / denominator)
+  };
+}
+
+/** Plays `games` seeded games of the candidate against rotating opponents and counts its wins. */
+function scoreParams(
+  tunable: TunableStrategy,
+  params: ParameterSet,
+  games: number,
+  seed: number,
+  options: TuningOptions
+): ScoredParams {
+  const candidate = createTunedStrategy(tunable, params);
+  const seats = options.playersPerGame - 1;
+  let wins = 0;
+
+  for (let game = 0; game < games; game++) {
+    const gameSeed = hashSeed(seed, game);
+    const opponents = Array.from({ length: seats }, (_, i) => options.opponents[(game + i) % options.opponents.length]);
+    const seating = shuffle([CANDIDATE_NAME, ...opponents], createRng(gameSeed));
+    const players = seating.map((name, index) => ({
+      playerId: index + 1,
+      name,
+      strategy: name === CANDIDATE_NAME ? candidate : getStrategy(name as StrategyName)
+    }));
+    const result = playGame(players, { gameId: game + 1, config: options.config, seed: gameSeed });
+    const candidateId = seating.indexOf(CANDIDATE_NAME) + 1;
+    wins += result.winnerId === candidateId ? 1 : 0;
+  }
+
+  return { params, wins, games, winRate: games > 0 ? wins / games : 0, confidence: wilsonInterval(wins, games) };
+}
+
+/**
+ * Random search over `tunable`'s parameter space by self-play: scores the defaults and
+ * `samples - 1` random sets on shared seeds, then re-scores the best `top` on fresh seeds.
+ */
+export function tuneStrategy(tunable: TunableStrategy, options: TuningOptions): TuningReport {
+  if (options.opponents.length === 0) {
+    throw new Error('Tuning needs at least one opponent strategy');
+  }
+  if (options.playersPerGame < 2) {
+    throw new Error('Tuning needs at least two players per game');
+  }
+
+  const rng = createRng(options.seed);
+  const defaults = defaultParams(tunable);
+  const candidates = [defaults];
+  while (candidates.length < Math.max(1, options.samples)) {
+    candidates.push(sampleParams(tunable, rng));
+  }
+
+  const byWinRate = (a: ScoredParams, b: ScoredParams) => b.winRate - a.winRate || b.confidence.low - a.confidence.low;
+  const finalists = candidates
+    .map((params) => scoreParams(tunable, params, options.games, options.seed, options))
+    .sort(byWinRate)
+    .slice(0, Math.max(1, options.top));
+
+  const confirmSeed = hashSeed(options.seed, CONFIRM_SEED_SALT);
+  const confirmed = finalists.map((finalist) =>
+    scoreParams(tunable, finalist.params, options.confirmGames, confirmSeed, options)
+  );
+  const baseline =
+    confirmed.find((scored) => scored.params === defaults) ??
+    scoreParams(tunable, defaults, options.confirmGames, confirmSeed, options);
+
+  return {
+    strategy: tunable.name,
+    method: 'random-search',
+    seed: options.seed,
+    samples: candidates.length,
+    gamesPerSample: options.games,
+    confirmGames: options.confirmGames,
+    playersPerGame: options.playersPerGame,
+    opponents: options.opponents,
+    baseline,
+    best: confirmed.sort(byWinRate)
+  };
+}
+
+export function formatTuningReport(report: TuningReport): string {
+  const describe = (scored: ScoredParams) =>
+    `${(scored.winRate * 100).toFixed(1)}% [${(scored.confidence.low * 100).toFixed(1)}%, ` +
+    `${(scored.confidence.high * 100).toFixed(1)}%] over ${scored.games} games  ${JSON.stringify(scored.params)}`;
+
+  return [
+    `${report.strategy}: ${report.method}, ${report.samples} samples x ${report.gamesPerSample} games, ` +
+      `confirmed over ${report.confirmGames} games (seed=${report.seed})`,
+    `${'baseline'.padEnd(10)}${describe(report.baseline)}`,
+    ...report.best.map((scored, index) => `${`#${index + 1}`.padEnd(10)}${describe(scored)}`)
+  ].join('\n');
+}
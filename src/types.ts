@@ -47,6 +47,13 @@ export type CombatAction =
   | { type: 'attack'; targetId: number; troopCount: number }
   | { type: 'upgrade' };
 
+/** Highest tower level; upgrades are rejected once a tower reaches it. */
+export const MAX_LEVEL = 6;
+
+/** Per-turn plan limits: at most this many armor and upgrade actions, and each attack needs a unique targetId. */
+export const MAX_ARMOR_ACTIONS_PER_TURN = 1;
+export const MAX_UPGRADE_ACTIONS_PER_TURN = 1;
+
 /** Upgrade cost: 50 * (1.75 ^ (level - 1)). Level 1→2: 50, 2→3: 88, 3→4: 153, 4→5: 268, 5→6: 469 */
 export function upgradeCost(level: number): number {
   return Math.floor(50 * Math.pow(1.75, level - 1));
@@ -56,3 +63,15 @@ export function upgradeCost(level: number): number {
 export function resourcesPerTurn(level: number): number {
   return Math.floor(20 * Math.pow(1.5, level - 1));
 }
+
+/** Resources an action costs a tower at `level`: 1 per armor point or troop, `upgradeCost` for an upgrade. */
+export function actionCost(action: CombatAction, level: number): number {
+  switch (action.type) {
+    case 'armor':
+      return action.amount;
+    case 'attack':
+      return action.troopCount;
+    case 'upgrade':
+      return upgradeCost(level);
+  }
+}
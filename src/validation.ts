@@ -0,0 +1,228 @@
+/**
+ * Runtime validation of engine payloads for /negotiate and /combat, and of the answers a bot sends back.
+ */
+import type { CombatAction, CombatRequest, NegotiateRequest, NegotiateResponseItem } from './types';
+import { MAX_LEVEL } from './types';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+type Checker = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  options: { integer?: boolean; min?: number; max?: number } = {}
+): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected a number, got ${describe(value)}` });
+    return;
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    issues.push({ path, message: `expected an integer, got ${value}` });
+  }
+  if (options.min !== undefined && value < options.min) {
+    issues.push({ path, message: `expected >= ${options.min}, got ${value}` });
+  }
+  if (options.max !== undefined && value > options.max) {
+    issues.push({ path, message: `expected <= ${options.max}, got ${value}` });
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function checkObject(value: unknown, path: string, issues: ValidationIssue[]): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected an object, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function checkArray(value: unknown, path: string, issues: ValidationIssue[], item: Checker): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array, got ${describe(value)}` });
+    return;
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+}
+
+const checkTower: Checker = (value, path, issues) => {
+  if (!checkObject(value, path, issues)) {
+    return;
+  }
+  checkNumber(value.playerId, `${path}.playerId`, issues, { integer: true });
+  checkNumber(value.hp, `${path}.hp`, issues);
+  checkNumber(value.armor, `${path}.armor`, issues, { min: 0 });
+  checkNumber(value.level, `${path}.level`, issues, { integer: true, min: 1, max: MAX_LEVEL });
+  if (value.resources !== undefined) {
+    checkNumber(value.resources, `${path}.resources`, issues, { min: 0 });
+  }
+};
+
+const checkAttack: Checker = (value, path, issues) => {
+  if (!checkObject(value, path, issues)) {
+    return;
+  }
+  checkNumber(value.playerId, `${path}.playerId`, issues, { integer: true });
+  if (!checkObject(value.action, `${path}.action`, issues)) {
+    return;
+  }
+  checkNumber(value.action.targetId, `${path}.action.targetId`, issues, { integer: true });
+  checkNumber(value.action.troopCount, `${path}.action.troopCount`, issues, { min: 0 });
+};
+
+const checkDiplomacyEntry: Checker = (value, path, issues) => {
+  if (!checkObject(value, path, issues)) {
+    return;
+  }
+  checkNumber(value.playerId, `${path}.playerId`, issues, { integer: true });
+  if (!checkObject(value.action, `${path}.action`, issues)) {
+    return;
+  }
+  checkNumber(value.action.allyId, `${path}.action.allyId`, issues, { integer: true });
+  if (value.action.attackTargetId !== undefined) {
+    checkNumber(value.action.attackTargetId, `${path}.action.attackTargetId`, issues, { integer: true });
+  }
+};
+
+function checkTurnEnvelope(value: Record<string, unknown>, issues: ValidationIssue[]): void {
+  checkNumber(value.gameId, 'gameId', issues, { integer: true });
+  checkNumber(value.turn, 'turn', issues, { integer: true, min: 0 });
+  checkTower(value.playerTower, 'playerTower', issues);
+  checkArray(value.enemyTowers, 'enemyTowers', issues, checkTower);
+}
+
+export function validateNegotiateRequest(body: unknown): ValidationResult<NegotiateRequest> {
+  const issues: ValidationIssue[] = [];
+  if (!checkObject(body, '$', issues)) {
+    return { ok: false, issues };
+  }
+  checkTurnEnvelope(body, issues);
+  checkArray(body.combatActions, 'combatActions', issues, checkAttack);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: body as unknown as NegotiateRequest };
+}
+
+export function validateCombatRequest(body: unknown): ValidationResult<CombatRequest> {
+  const issues: ValidationIssue[] = [];
+  if (!checkObject(body, '$', issues)) {
+    return { ok: false, issues };
+  }
+  checkTurnEnvelope(body, issues);
+  checkArray(body.diplomacy, 'diplomacy', issues, checkDiplomacyEntry);
+  checkArray(body.previousAttacks, 'previousAttacks', issues, checkAttack);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: body as unknown as CombatRequest };
+}
+
+/** Entries of `value` that pass `item`; anything that is not an array counts as empty. */
+function keepValid(value: unknown, item: Checker): unknown[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((entry) => {
+    const issues: ValidationIssue[] = [];
+    item(entry, '', issues);
+    return issues.length === 0;
+  });
+}
+
+function finiteOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/** A tower we can still plan around: it needs a player id and hp, everything else gets a safe default. */
+function salvageTower(value: unknown): CombatRequest['playerTower'] | undefined {
+  if (!isObject(value) || !Number.isInteger(value.playerId) || typeof value.hp !== 'number' || !Number.isFinite(value.hp)) {
+    return undefined;
+  }
+  const level = Math.min(MAX_LEVEL, Math.max(1, Math.floor(finiteOr(value.level, 1))));
+  const tower = { playerId: value.playerId as number, hp: value.hp, armor: Math.max(0, finiteOr(value.armor, 0)), level };
+  const resources = finiteOr(value.resources, -1);
+  return resources >= 0 ? { ...tower, resources } : tower;
+}
+
+/**
+ * Best-effort reading of a /combat payload that failed validation, so the turn is still played:
+ * malformed towers and list entries are dropped and missing lists are empty. Gives up only when
+ * `playerTower` itself is unusable.
+ */
+export function salvageCombatRequest(body: unknown): CombatRequest | undefined {
+  const playerTower = isObject(body) ? salvageTower(body.playerTower) : undefined;
+  if (!isObject(body) || !playerTower) {
+    return undefined;
+  }
+  return {
+    gameId: finiteOr(body.gameId, 0),
+    turn: finiteOr(body.turn, 0),
+    playerTower,
+    enemyTowers: (Array.isArray(body.enemyTowers) ? body.enemyTowers : [])
+      .map(salvageTower)
+      .filter((tower): tower is CombatRequest['playerTower'] => tower !== undefined),
+    diplomacy: keepValid(body.diplomacy, checkDiplomacyEntry) as CombatRequest['diplomacy'],
+    previousAttacks: keepValid(body.previousAttacks, checkAttack) as CombatRequest['previousAttacks']
+  };
+}
+
+const checkProposal: Checker = (value, path, issues) => {
+  if (!checkObject(value, path, issues)) {
+    return;
+  }
+  checkNumber(value.allyId, `${path}.allyId`, issues, { integer: true });
+  if (value.attackTargetId !== undefined) {
+    checkNumber(value.attackTargetId, `${path}.attackTargetId`, issues, { integer: true });
+  }
+};
+
+/** Shape only: whether the plan is affordable and legal is `findPlanViolation`'s job. */
+const checkCombatAction: Checker = (value, path, issues) => {
+  if (!checkObject(value, path, issues)) {
+    return;
+  }
+  switch (value.type) {
+    case 'armor':
+      checkNumber(value.amount, `${path}.amount`, issues);
+      return;
+    case 'attack':
+      checkNumber(value.targetId, `${path}.targetId`, issues, { integer: true });
+      checkNumber(value.troopCount, `${path}.troopCount`, issues);
+      return;
+    case 'upgrade':
+      return;
+    default:
+      issues.push({ path: `${path}.type`, message: `expected armor, attack or upgrade, got ${JSON.stringify(value.type)}` });
+  }
+};
+
+export function validateNegotiateResponse(body: unknown): ValidationResult<NegotiateResponseItem[]> {
+  const issues: ValidationIssue[] = [];
+  checkArray(body, '$', issues, checkProposal);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: body as NegotiateResponseItem[] };
+}
+
+export function validateCombatResponse(body: unknown): ValidationResult<CombatAction[]> {
+  const issues: ValidationIssue[] = [];
+  checkArray(body, '$', issues, checkCombatAction);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: body as CombatAction[] };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
+
@@ -0,0 +1,49 @@
+import { allocateTroops } from '../src/allocation';
+import type { Tower } from '../src/types';
+
+const tower = (playerId: number, hp: number, armor = 0, level = 1): Tower => ({ playerId, hp, armor, level });
+
+describe('allocateTroops', () => {
+  test('kills every tower the budget covers, paying for armor, and sends the rest at the best survivor', () => {
+    const targets = [tower(2, 30, 10), tower(3, 25, 5), tower(4, 200, 0, 3)];
+    expect(allocateTroops(100, targets)).toEqual([
+      { targetId: 3, troops: 30, kills: true },
+      { targetId: 2, troops: 40, kills: true },
+      { targetId: 4, troops: 30, kills: false }
+    ]);
+  });
+
+  test('prefers more kills over a single wanted one', () => {
+    const targets = [tower(2, 60, 0, 3), tower(3, 30), tower(4, 30)];
+    expect(allocateTroops(60, targets).map((allocation) => allocation.targetId)).toEqual([3, 4]);
+  });
+
+  test('breaks ties between kill sets by preference', () => {
+    const targets = [tower(2, 50), tower(3, 50)];
+    const preferThree = (a: Tower, b: Tower) => (b.playerId === 3 ? 1 : 0) - (a.playerId === 3 ? 1 : 0);
+    expect(allocateTroops(60, targets, { preference: preferThree })).toEqual([
+      { targetId: 3, troops: 50, kills: true },
+      { targetId: 2, troops: 10, kills: false }
+    ]);
+  });
+
+  test('counts the armor a target usually buys', () => {
+    const estimates = new Map([
+      [2, { playerId: 2, turn: 3, income: 20, available: 20, nextTurnAvailable: 40, likelyArmor: 15, likelyTroops: 0, exact: true }]
+    ]);
+    expect(allocateTroops(45, [tower(2, 30)], { estimates })).toEqual([{ targetId: 2, troops: 45, kills: true }]);
+    expect(allocateTroops(44, [tower(2, 30)], { estimates })).toEqual([{ targetId: 2, troops: 44, kills: false }]);
+  });
+
+  test('backs the best kill with troops left once every target is covered', () => {
+    expect(allocateTroops(100, [tower(2, 30), tower(3, 20)])).toEqual([
+      { targetId: 3, troops: 70, kills: true },
+      { targetId: 2, troops: 30, kills: true }
+    ]);
+  });
+
+  test('respects maxTargets and skips dead towers', () => {
+    const targets = [tower(2, 10), tower(3, 10), tower(4, 0)];
+    expect(allocateTroops(50, targets, { maxTargets: 1 })).toEqual([{ targetId: 2, troops: 50, kills: true }]);
+  });
+});
@@ -0,0 +1,121 @@
+import { classifyOpponents, createGameMemoryStore } from '../src/memory';
+import type { Archetype } from '../src/memory';
+import { playGame } from '../src/simulator';
+import { getStrategy } from '../src/strategies';
+import { createMetaStrategy } from '../src/strategies/meta';
+import type { Strategy } from '../src/strategies/types';
+import { createDecisionRecorder } from '../src/trace';
+import type { TraceRule } from '../src/trace';
+import { MAX_LEVEL, upgradeCost } from '../src/types';
+
+/** Sparring bots that play one archetype in its purest form. */
+const ARCHETYPE_BOTS: Record<'turtle' | 'rusher' | 'economy', Strategy> = {
+  turtle: {
+    negotiate: () => [],
+    combat: (request) => {
+      const resources = request.playerTower.resources ?? 0;
+      return resources > 0 ? [{ type: 'armor', amount: resources }] : [];
+    }
+  },
+  rusher: {
+    negotiate: () => [],
+    combat: (request) => {
+      const resources = request.playerTower.resources ?? 0;
+      const target = request.enemyTowers
+        .filter((enemy) => enemy.hp > 0)
+        .sort((a, b) => a.hp + a.armor - (b.hp + b.armor) || a.playerId - b.playerId)[0];
+      return target && resources > 0 ? [{ type: 'attack', targetId: target.playerId, troopCount: resources }] : [];
+    }
+  },
+  economy: {
+    negotiate: () => [],
+    combat: (request) => {
+      const { level } = request.playerTower;
+      const resources = request.playerTower.resources ?? 0;
+      if (level < MAX_LEVEL && resources >= upgradeCost(level)) {
+        return [{ type: 'upgrade' }];
+      }
+      // Cash in once the economy is big; until then, bank for the next level.
+      const target = request.enemyTowers.filter((enemy) => enemy.hp > 0).sort((a, b) => a.hp - b.hp)[0];
+      return level >= 4 && target && resources > 0
+        ? [{ type: 'attack', targetId: target.playerId, troopCount: resources }]
+        : [];
+    }
+  }
+};
+
+/** Plays `observer` against the given sparring bots and returns how it saw them and what it traced at `turn`. */
+function observeAt(
+  observer: Strategy,
+  opponents: Strategy[],
+  turn: number
+): { labels: Record<number, Archetype>; rules: TraceRule[] } {
+  const seen: { labels: Record<number, Archetype>; rules: TraceRule[] } = { labels: {}, rules: [] };
+  const spy: Strategy = {
+    negotiate: observer.negotiate,
+    combat: (request, context) => {
+      const trace = createDecisionRecorder();
+      const actions = observer.combat(request, { ...context, trace });
+      if (request.turn === turn && context?.memory) {
+        for (const [playerId, profile] of classifyOpponents(context.memory)) {
+          seen.labels[playerId] = profile.archetype;
+        }
+        seen.rules = trace.rules();
+      }
+      return actions;
+    }
+  };
+  const players = [spy, ...opponents].map((strategy, index) => ({ playerId: index + 1, name: String(index), strategy }));
+  playGame(players, { gameId: 1, seed: 1 });
+  return seen;
+}
+
+describe('classifyOpponents', () => {
+  test('labels each sparring bot with its archetype', () => {
+    const { labels } = observeAt(
+      getStrategy('hybrid-lite'),
+      [ARCHETYPE_BOTS.turtle, ARCHETYPE_BOTS.rusher, ARCHETYPE_BOTS.economy],
+      6
+    );
+    expect(labels).toEqual({ 2: 'turtle', 3: 'rusher', 4: 'economy' });
+  });
+
+  test('waits for a couple of turns before labelling anyone', () => {
+    const { labels } = observeAt(getStrategy('hybrid-lite'), [ARCHETYPE_BOTS.turtle, ARCHETYPE_BOTS.rusher], 2);
+    expect(labels).toEqual({ 2: 'unknown', 3: 'unknown' });
+  });
+});
+
+describe('meta strategy', () => {
+  test('switches to the economy counter once the table is profiled', () => {
+    const economy = [ARCHETYPE_BOTS.economy, ARCHETYPE_BOTS.economy, ARCHETYPE_BOTS.economy];
+    expect(observeAt(getStrategy('meta'), economy, 1).rules[0]).toEqual({
+      name: 'meta-counter',
+      detail: { archetype: 'unknown', strategy: 'tempo-threat', cached: true }
+    });
+    expect(observeAt(getStrategy('meta'), economy, 5).rules[0]).toEqual({
+      name: 'meta-counter',
+      detail: { archetype: 'economy', strategy: 'armor-control', cached: true }
+    });
+  });
+
+  test('plays combat with the strategy it negotiated with on that turn', () => {
+    const used: string[] = [];
+    const meta = createMetaStrategy((name) => {
+      used.push(name);
+      return ARCHETYPE_BOTS.turtle;
+    });
+    const tower = { playerId: 1, hp: 100, armor: 0, level: 1, resources: 20 };
+    const negotiate = { gameId: 1, turn: 3, playerTower: tower, enemyTowers: [], combatActions: [] };
+    const combat = { ...negotiate, diplomacy: [], previousAttacks: [] };
+    const store = createGameMemoryStore();
+
+    meta.negotiate(negotiate, { memory: store.recordNegotiate(negotiate) });
+    // Whatever the combat call would pick on its own, the turn's first pick stands.
+    const memory = store.recordCombat(combat);
+    memory.delegates.set(3, { strategy: 'armor-control', reason: 'economy' });
+    meta.combat(combat, { memory });
+    meta.combat({ ...combat, turn: 4 }, { memory });
+    expect(used).toEqual(['tempo-threat', 'armor-control', 'tempo-threat']);
+  });
+});
@@ -0,0 +1,156 @@
+import express from 'express';
+import { mkdtempSync } from 'fs';
+import type { Server } from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { createBotInstance, createBotRouter, parseBotConfigs } from '../src/bot';
+import { createBotMetrics } from '../src/botMetrics';
+import { createGameMemoryStore } from '../src/memory';
+import type { BotInstance } from '../src/bot';
+import { readReplay, replayFileName } from '../src/replay/recorder';
+import { replayGame } from '../src/replay/replayer';
+import { getStrategy, registerStrategyDefinition } from '../src/strategies';
+import { BUILTIN_DEFINITIONS } from '../src/strategies/builtin';
+import { combatFixtures } from './helpers/golden';
+
+describe('parseBotConfigs', () => {
+  test('reads bots and defaults the name to the id', () => {
+    registerStrategyDefinition({ ...BUILTIN_DEFINITIONS.legacy, name: 'legacy-variant' });
+    expect(
+      parseBotConfigs('[{"id": "tempo", "name": "Tempo Bot", "strategy": "tempo-threat"}, {"id": "cfg", "strategy": "config:legacy-variant"}]')
+    ).toEqual([
+      { id: 'tempo', name: 'Tempo Bot', strategy: 'tempo-threat' },
+      { id: 'cfg', name: 'cfg', strategy: 'config:legacy-variant' }
+    ]);
+  });
+
+  test.each([
+    ['{"id": "tempo"}', 'BOTS must be a JSON array'],
+    ['[{"id": "Tempo Bot", "strategy": "legacy"}]', 'BOTS[0].id must be lowercase'],
+    ['[{"id": "default", "strategy": "legacy"}]', 'BOTS[0].id "default" is already taken'],
+    ['[{"id": "a", "strategy": "legacy"}, {"id": "a", "strategy": "legacy"}]', 'BOTS[1].id "a" is already taken'],
+    ['[{"id": "a", "strategy": "nope"}]', 'BOTS[0].strategy must be one of']
+  ])('rejects %s', (raw, message) => {
+    expect(() => parseBotConfigs(raw)).toThrow(message);
+  });
+});
+
+describe('createBotRouter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let bot: BotInstance;
+  const replayDir = mkdtempSync(path.join(os.tmpdir(), 'kw-bot-'));
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    bot = createBotInstance({ id: 'default', name: 'Bot', strategy: 'armor-control' }, { dir: replayDir, retentionDays: 1 });
+    app.use(createBotRouter(bot, { version: '1.0', metrics: createBotMetrics(() => 0), adminToken: 'secret', turnBudgetMs: 1000 }));
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const strategyOf = async (headers: Record<string, string>) =>
+    ((await (await fetch(`${baseUrl}/info?strategy=legacy`, { headers })).json()) as { strategy: string }).strategy;
+
+  test('ignores ?strategy= without the admin token', async () => {
+    expect(await strategyOf({})).toBe('armor-control');
+    expect(await strategyOf({ authorization: 'Bearer wrong' })).toBe('armor-control');
+  });
+
+  test('honours ?strategy= with the admin token', async () => {
+    expect(await strategyOf({ authorization: 'Bearer secret' })).toBe('legacy');
+  });
+
+  test('advertises only the protocol versions an engine speaks', async () => {
+    const info = (await (await fetch(`${baseUrl}/info`)).json()) as { protocolVersions: string[] };
+    expect(info.protocolVersions).toEqual(['1.0']);
+  });
+
+  const combat = async (body: unknown) =>
+    (await fetch(`${baseUrl}/combat`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body)
+    }).then((response) => response.json())) as unknown[];
+
+  test('still plays an invalid /combat turn on the usable part of the payload', async () => {
+    const actions = await combat({
+      gameId: 1,
+      turn: 3,
+      playerTower: { playerId: 1, hp: 100, armor: 0, level: 7, resources: 30 },
+      enemyTowers: [{ playerId: 2, hp: 40, armor: 0, level: 1 }, { playerId: 'x' }]
+    });
+    expect(actions).toEqual([
+      { type: 'armor', amount: 10 },
+      { type: 'attack', targetId: 2, troopCount: 20 }
+    ]);
+  });
+
+  test('answers an empty plan only without a usable playerTower', async () => {
+    expect(await combat({ gameId: 1, turn: 3, enemyTowers: [] })).toEqual([]);
+  });
+
+  test('serves decision traces only with the admin token', async () => {
+    const request = combatFixtures().find((fixture) => fixture.name === 'combat/mid-game')!.request;
+    await combat({ ...request, gameId: 5 });
+    const trace = (headers: Record<string, string>) => fetch(`${baseUrl}/games/5/trace`, { headers });
+
+    expect((await trace({})).status).toBe(401);
+    expect((await trace({ authorization: 'Bearer wrong' })).status).toBe(401);
+    const authorized = await trace({ authorization: 'Bearer secret' });
+    expect(authorized.status).toBe(200);
+    expect(await authorized.json()).toMatchObject({ gameId: 5, traces: [{ turn: request.turn }] });
+  });
+
+  test.each([
+    ['1.0', { type: 'attack', targetId: 4, troopCount: 100 }],
+    ['2.0', { type: 'attack', targetId: 4, troops: 100 }]
+  ])('answers a %s engine in its own shape', async (version, attack) => {
+    const request = combatFixtures().find((fixture) => fixture.name === 'combat/several-kills')!.request;
+    const response = await fetch(`${baseUrl}/combat`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-protocol-version': version },
+      body: JSON.stringify(request)
+    });
+    expect(response.headers.get('x-protocol-version')).toBe(version);
+    expect(await response.json()).toEqual([attack]);
+  });
+
+  test('records invalid calls with the raw body, and replays them through the same fallback', async () => {
+    const body = { gameId: 9, turn: 2, playerTower: { playerId: 1, hp: 50, armor: 20, level: 1, resources: 15 }, enemyTowers: [] };
+    await combat(body);
+    await bot.replayRecorder!.flush();
+    const entries = await readReplay(path.join(replayDir, replayFileName(9)));
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ phase: 'combat', invalid: true, request: body, response: [] });
+    expect(replayGame(entries, getStrategy('armor-control'))[0].differs).toBe(false);
+  });
+});
+
+describe('createGameMemoryStore', () => {
+  test('reports evicted games so their overrides can go too', () => {
+    let now = 0;
+    const evicted: number[] = [];
+    const store = createGameMemoryStore({ ttlMs: 1000, now: () => now, onEvict: (gameId) => evicted.push(gameId) });
+    const request = (gameId: number) => ({
+      gameId,
+      turn: 1,
+      playerTower: { playerId: 1, hp: 100, armor: 0, level: 1, resources: 20 },
+      enemyTowers: [],
+      combatActions: []
+    });
+    store.recordNegotiate(request(1));
+    now = 5000;
+    store.recordNegotiate(request(2));
+    expect(evicted).toEqual([1]);
+    expect(store.gameIds()).toEqual([2]);
+  });
+});
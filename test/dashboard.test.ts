@@ -0,0 +1,120 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createBotInstance } from '../src/bot';
+import { createDashboardRouter, timelineFromReplay } from '../src/dashboard';
+import { renderGame } from '../src/dashboard/render';
+import type { ReplayEntry } from '../src/replay/recorder';
+import type { NegotiateRequest, Tower } from '../src/types';
+
+const towers = (ourHp: number, enemyHp: number): { playerTower: Tower; enemyTowers: Tower[] } => ({
+  playerTower: { playerId: 1, hp: ourHp, armor: 0, level: 1, resources: 20 },
+  enemyTowers: [
+    { playerId: 2, hp: enemyHp, armor: 0, level: 1 },
+    { playerId: 3, hp: 100, armor: 0, level: 1 }
+  ]
+});
+
+const base = { gameId: 7, strategy: 'hybrid-lite', at: '2026-01-01T00:00:00.000Z' };
+
+const entries: ReplayEntry[] = [
+  {
+    ...base,
+    turn: 1,
+    phase: 'negotiate',
+    request: { gameId: 7, turn: 1, ...towers(100, 100), combatActions: [] },
+    response: [{ allyId: 3, attackTargetId: 2 }]
+  },
+  {
+    ...base,
+    turn: 1,
+    phase: 'combat',
+    request: {
+      gameId: 7,
+      turn: 1,
+      ...towers(100, 100),
+      diplomacy: [{ playerId: 2, action: { allyId: 3, attackTargetId: 1 } }],
+      previousAttacks: []
+    },
+    response: [{ type: 'attack', targetId: 2, troopCount: 20 }]
+  },
+  {
+    ...base,
+    turn: 2,
+    phase: 'negotiate',
+    request: {
+      gameId: 7,
+      turn: 2,
+      ...towers(90, 80),
+      combatActions: [
+        { playerId: 1, action: { targetId: 2, troopCount: 20 } },
+        { playerId: 2, action: { targetId: 1, troopCount: 10 } }
+      ]
+    },
+    response: []
+  }
+];
+
+describe('timelineFromReplay', () => {
+  test('lays out towers, diplomacy, attacks and our answers per turn', () => {
+    const timeline = timelineFromReplay(entries)!;
+    expect(timeline.turns.map((turn) => turn.turn)).toEqual([1, 2]);
+
+    const [first, second] = timeline.turns;
+    expect(first.towers[0]).toEqual({ playerId: 1, us: true, hp: 100, armor: 0, level: 1, resources: 20 });
+    expect(first.proposed).toEqual([{ turn: 1, proposerId: 1, allyId: 3, attackTargetId: 2 }]);
+    expect(first.received).toEqual([{ turn: 1, proposerId: 2, allyId: 3, attackTargetId: 1 }]);
+    expect(first.attacksOut).toEqual([{ turn: 1, attackerId: 1, targetId: 2, troopCount: 20 }]);
+    expect(first.attacksIn).toEqual([{ turn: 1, attackerId: 2, targetId: 1, troopCount: 10 }]);
+    expect(first.combat?.actions).toEqual([{ type: 'attack', targetId: 2, troopCount: 20 }]);
+    expect(second.towers.map((tower) => tower.hp)).toEqual([90, 80, 100]);
+  });
+
+  test('returns nothing for an empty recording', () => {
+    expect(timelineFromReplay([])).toBeUndefined();
+  });
+});
+
+describe('renderGame', () => {
+  test('renders a self-contained page and escapes names', () => {
+    const html = renderGame('<b>bot</b>', timelineFromReplay(entries)!, 'recorded');
+    expect(html).toContain('&lt;b&gt;bot&lt;/b&gt;');
+    expect(html).toContain('attack:2x20');
+    expect(html).not.toMatch(/<script|<link|https?:\/\//);
+  });
+});
+
+describe('createDashboardRouter', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const bot = createBotInstance({ id: 'default', name: 'Bot', strategy: 'hybrid-lite' });
+    bot.memoryStore.recordNegotiate(entries[0].request as NegotiateRequest);
+    const app = express();
+    app.use(createDashboardRouter(new Map([[bot.id, bot]]), { activeWindowMs: 60 * 1000, adminToken: 'secret' }));
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const status = async (route: string, headers: Record<string, string> = {}) =>
+    (await fetch(`${baseUrl}${route}`, { headers })).status;
+
+  test('keeps / a plain page open to everyone', async () => {
+    const response = await fetch(`${baseUrl}/`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).not.toContain('/dashboard/bots/');
+  });
+
+  test.each(['/dashboard', '/dashboard/bots/default/games/7'])('serves %s only with the admin token', async (route) => {
+    expect(await status(route)).toBe(401);
+    expect(await status(route, { authorization: 'Bearer wrong' })).toBe(401);
+    expect(await status(route, { authorization: 'Bearer secret' })).toBe(200);
+  });
+});
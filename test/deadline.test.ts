@@ -0,0 +1,49 @@
+import { withDeadline } from '../src/deadline';
+
+function busyWait(ms: number): void {
+  const until = Date.now() + ms;
+  while (Date.now() < until) {
+    // Burn the budget synchronously, like a slow strategy would.
+  }
+}
+
+describe('withDeadline', () => {
+  const fallback = () => ['fallback'];
+
+  test('returns the primary answer when it is on time', async () => {
+    const result = await withDeadline(() => ['primary'], fallback, 100);
+    expect(result).toMatchObject({ value: ['primary'], outcome: 'ok' });
+  });
+
+  test('falls back when the primary throws', async () => {
+    const result = await withDeadline(
+      () => {
+        throw new Error('boom');
+      },
+      fallback,
+      100
+    );
+    expect(result).toMatchObject({ value: ['fallback'], outcome: 'error', error: 'boom' });
+  });
+
+  test('keeps the answer of a synchronous primary that overruns, as late', async () => {
+    const result = await withDeadline(
+      () => {
+        busyWait(30);
+        return ['primary'];
+      },
+      fallback,
+      10
+    );
+    expect(result.outcome).toBe('late');
+    expect(result.value).toEqual(['primary']);
+    expect(result.latencyMs).toBeGreaterThanOrEqual(10);
+  });
+
+  test('does not wait for an asynchronous primary past the budget', async () => {
+    const never = new Promise<string[]>(() => undefined);
+    const result = await withDeadline(() => never, fallback, 20);
+    expect(result).toMatchObject({ value: ['fallback'], outcome: 'timeout' });
+    expect(result.latencyMs).toBeLessThan(1000);
+  });
+});
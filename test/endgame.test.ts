@@ -0,0 +1,71 @@
+import { assessDuel, bestKillPlan, planEndgame, turnsToKill } from '../src/endgame';
+import type { Fighter } from '../src/endgame';
+import type { CombatRequest } from '../src/types';
+
+const fighter = (overrides: Partial<Fighter> = {}): Fighter => ({ hp: 100, armor: 0, level: 1, resources: 20, ...overrides });
+
+describe('turnsToKill', () => {
+  test('sends everything every turn, armor first', () => {
+    // 20 + 20 + 20 + 20 + 20 + 20 = 120 clears 20 armor and 100 hp on the sixth turn.
+    expect(turnsToKill(fighter(), fighter({ armor: 20 }), 0)).toBe(6);
+  });
+
+  test('banks for upgrades before attacking with the higher income', () => {
+    // Turn 1-3 bank 60, upgrade (50); then 30/turn from 10 banked: 40, 70, 100.
+    expect(turnsToKill(fighter(), fighter(), 1)).toBe(6);
+  });
+
+  test('ignores the turn number: a late game deals no extra damage', () => {
+    // 0 + 20 + 20 only clears 25 hp on the third turn, however late in the game it is.
+    expect(turnsToKill(fighter({ resources: 0 }), fighter({ hp: 25 }), 0)).toBe(3);
+  });
+
+  test('gives up past the horizon', () => {
+    expect(turnsToKill(fighter({ resources: 0 }), fighter({ armor: 10000 }), 0)).toBe(Infinity);
+  });
+});
+
+describe('assessDuel', () => {
+  test('goes all-in when our kill lands first', () => {
+    const verdict = assessDuel(fighter({ resources: 120 }), fighter({ hp: 100 }));
+    expect(verdict).toMatchObject({ mode: 'all-in', ours: { upgrades: 0, turns: 1 } });
+  });
+
+  test('defends when they get there first', () => {
+    expect(assessDuel(fighter({ hp: 10 }), fighter({ level: 3, resources: 45 })).mode).toBe('defend');
+  });
+
+  test('out-scales when upgrading first kills sooner', () => {
+    const plan = bestKillPlan(fighter({ level: 2, resources: 88 }), fighter({ hp: 300, armor: 200 }));
+    expect(plan.upgrades).toBeGreaterThan(0);
+    expect(assessDuel(fighter({ level: 2, resources: 88, armor: 500 }), fighter({ hp: 300, armor: 200 })).mode).toBe(
+      'out-scale'
+    );
+  });
+});
+
+describe('planEndgame', () => {
+  const request = (resources: number, enemyHp: number): CombatRequest => ({
+    gameId: 1,
+    turn: 20,
+    playerTower: { playerId: 1, hp: 80, armor: 10, resources, level: 2 },
+    enemyTowers: [{ playerId: 2, hp: enemyHp, armor: 5, level: 2, resources: 30 }],
+    diplomacy: [],
+    previousAttacks: []
+  });
+
+  test('sends everything at a killable last enemy', () => {
+    expect(planEndgame(request(60, 50))?.actions).toEqual([{ type: 'attack', targetId: 2, troopCount: 60 }]);
+  });
+
+  test('never overspends', () => {
+    for (const resources of [0, 10, 45, 88, 200]) {
+      const plan = planEndgame(request(resources, 100))!;
+      const spent = plan.actions.reduce(
+        (sum, action) => sum + (action.type === 'armor' ? action.amount : action.type === 'attack' ? action.troopCount : 88),
+        0
+      );
+      expect(spent).toBeLessThanOrEqual(resources);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { createGameMemoryStore } from '../src/memory';
+import { planFocusFire, withFocusFire } from '../src/negotiation';
+import type { Strategy } from '../src/strategies/types';
+import type { CombatRequest, NegotiateRequest, Tower } from '../src/types';
+
+const us: Tower = { playerId: 1, hp: 100, armor: 0, level: 2, resources: 40 };
+const enemies: Tower[] = [
+  { playerId: 2, hp: 50, armor: 10, level: 3 },
+  { playerId: 3, hp: 100, armor: 0, level: 2 },
+  { playerId: 4, hp: 100, armor: 0, level: 2 }
+];
+
+const negotiateRequest = (overrides: Partial<NegotiateRequest> = {}): NegotiateRequest => ({
+  gameId: 1,
+  turn: 5,
+  playerTower: us,
+  enemyTowers: enemies,
+  combatActions: [],
+  ...overrides
+});
+
+/** Both invited allies take the plan up against player 2. */
+const accepted: CombatRequest['diplomacy'] = [
+  { playerId: 3, action: { allyId: 1, attackTargetId: 2 } },
+  { playerId: 4, action: { allyId: 1, attackTargetId: 2 } }
+];
+
+const combatRequest = (diplomacy: CombatRequest['diplomacy'] = accepted): CombatRequest => ({
+  gameId: 1,
+  turn: 5,
+  playerTower: us,
+  enemyTowers: enemies,
+  diplomacy,
+  previousAttacks: []
+});
+
+const idle: Strategy = {
+  negotiate: () => [{ allyId: 3 }],
+  combat: (request) => [{ type: 'armor', amount: request.playerTower.resources ?? 0 }]
+};
+
+describe('planFocusFire', () => {
+  test('invites allies against an enemy we cannot kill alone', () => {
+    // 60 needed, 40 of ours plus 15 (half of a level 2 income) from each of two allies.
+    expect(planFocusFire(negotiateRequest())).toEqual({
+      targetId: 2,
+      allyIds: [3, 4],
+      needed: 60,
+      ourTroops: 40,
+      allyTroops: 30
+    });
+  });
+
+  test('skips enemies we can kill alone and kills out of reach', () => {
+    expect(planFocusFire(negotiateRequest({ playerTower: { ...us, resources: 100 } }))).toBeUndefined();
+    expect(planFocusFire(negotiateRequest({ playerTower: { ...us, resources: 10 } }))).toBeUndefined();
+  });
+});
+
+describe('withFocusFire', () => {
+  test('commits our share of the kill in the matching combat and leaves the rest to the strategy', () => {
+    const store = createGameMemoryStore();
+    const strategy = withFocusFire(idle);
+    const request = negotiateRequest();
+    const proposals = strategy.negotiate(request, { memory: store.recordNegotiate(request) });
+    expect(proposals).toEqual([
+      { allyId: 3, attackTargetId: 2 },
+      { allyId: 4, attackTargetId: 2 }
+    ]);
+    store.recordOurProposals(request, proposals);
+
+    const combat = combatRequest();
+    expect(strategy.combat(combat, { memory: store.recordCombat(combat) })).toEqual([
+      { type: 'attack', targetId: 2, troopCount: 30 },
+      { type: 'armor', amount: 10 }
+    ]);
+  });
+
+  test.each([
+    ['nobody answers', []],
+    ['the allies pick another target', accepted.map((entry) => ({ ...entry, action: { allyId: 1, attackTargetId: 4 } }))],
+    ['only one ally joins, which is not enough', accepted.slice(0, 1)]
+  ])('commits nothing when %s', (_, diplomacy) => {
+    const store = createGameMemoryStore();
+    const strategy = withFocusFire(idle);
+    const request = negotiateRequest();
+    store.recordOurProposals(request, strategy.negotiate(request, { memory: store.recordNegotiate(request) }));
+
+    const combat = combatRequest(diplomacy);
+    expect(strategy.combat(combat, { memory: store.recordCombat(combat) })).toEqual([{ type: 'armor', amount: 40 }]);
+  });
+
+  test('leaves the strategy alone without memory', () => {
+    const strategy = withFocusFire(idle);
+    expect(strategy.negotiate(negotiateRequest())).toEqual([{ allyId: 3 }]);
+    expect(strategy.combat(combatRequest())).toEqual([{ type: 'armor', amount: 40 }]);
+  });
+});
@@ -0,0 +1,45 @@
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { CombatRequest, NegotiateRequest } from '../../src/types';
+
+/** Set `UPDATE_GOLDEN=1` to rewrite the expected files from the current strategies. */
+export const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+const GOLDEN_DIR = path.join(__dirname, '..', 'golden');
+
+export interface Fixture<T> {
+  name: string;
+  request: T;
+}
+
+/** One turn of a game fixture: both calls, played in order against the same game memory. */
+export interface GameTurn {
+  negotiate: NegotiateRequest;
+  combat: CombatRequest;
+}
+
+function loadFixtures<T>(phase: 'negotiate' | 'combat' | 'games'): Fixture<T>[] {
+  const dir = path.join(FIXTURES_DIR, phase);
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => ({
+      name: `${phase}/${path.basename(file, '.json')}`,
+      request: JSON.parse(readFileSync(path.join(dir, file), 'utf8')) as T
+    }));
+}
+
+export const negotiateFixtures = (): Fixture<NegotiateRequest>[] => loadFixtures<NegotiateRequest>('negotiate');
+export const combatFixtures = (): Fixture<CombatRequest>[] => loadFixtures<CombatRequest>('combat');
+export const gameFixtures = (): Fixture<{ turns: GameTurn[] }>[] => loadFixtures<{ turns: GameTurn[] }>('games');
+
+/** Expected responses for one strategy, keyed by fixture name. */
+export function readGolden(strategy: string): Record<string, unknown> {
+  const file = path.join(GOLDEN_DIR, `${strategy}.json`);
+  return existsSync(file) ? (JSON.parse(readFileSync(file, 'utf8')) as Record<string, unknown>) : {};
+}
+
+export function writeGolden(strategy: string, responses: Record<string, unknown>): void {
+  writeFileSync(path.join(GOLDEN_DIR, `${strategy}.json`), `${JSON.stringify(responses, null, 2)}\n`);
+}
@@ -0,0 +1,24 @@
+import { STRATEGY_NAMES, getStrategy } from '../../src/strategies';
+import type { Strategy } from '../../src/strategies/types';
+import { playGame } from '../../src/simulator';
+import type { CombatRequest } from '../../src/types';
+
+/** Combat requests every strategy actually received over a few seeded simulated games. */
+export function collectCombatRequests(games: number): CombatRequest[] {
+  const requests: CombatRequest[] = [];
+  for (let game = 1; game <= games; game++) {
+    const players = STRATEGY_NAMES.map((name, index) => {
+      const inner = getStrategy(name);
+      const strategy: Strategy = {
+        negotiate: inner.negotiate,
+        combat: (request, context) => {
+          requests.push(request);
+          return inner.combat(request, context);
+        }
+      };
+      return { playerId: index + 1, name, strategy };
+    });
+    playGame(players, { gameId: game, seed: game });
+  }
+  return requests;
+}
@@ -0,0 +1,109 @@
+import { createGameMemoryStore } from '../src/memory';
+import type { CombatActionAttack, CombatRequest, DiplomacyEntry, NegotiateRequest, Tower } from '../src/types';
+import { upgradeCost } from '../src/types';
+
+const us: Tower = { playerId: 1, hp: 100, armor: 0, level: 1, resources: 20 };
+
+const negotiate = (turn: number, enemyTowers: Tower[], combatActions: CombatActionAttack[] = []): NegotiateRequest => ({
+  gameId: 1,
+  turn,
+  playerTower: us,
+  enemyTowers,
+  combatActions
+});
+
+const combat = (
+  turn: number,
+  enemyTowers: Tower[],
+  previousAttacks: CombatActionAttack[] = [],
+  diplomacy: DiplomacyEntry[] = []
+): CombatRequest => ({
+  gameId: 1,
+  turn,
+  playerTower: us,
+  enemyTowers,
+  diplomacy,
+  previousAttacks
+});
+
+const attack = (playerId: number, targetId: number, troopCount: number): CombatActionAttack => ({
+  playerId,
+  action: { targetId, troopCount }
+});
+
+describe('inferred spend', () => {
+  test('counts armor absorbed by incoming troops and the troops an opponent sent', () => {
+    const store = createGameMemoryStore();
+    const third = { playerId: 3, hp: 100, armor: 0, level: 1 };
+    store.recordNegotiate(negotiate(1, [{ playerId: 2, hp: 100, armor: 0, level: 1 }, third]));
+    // Player 3 sent 20 at player 2, which lost only 10 hp: armor absorbed 10 and 5 is left, so it bought 15.
+    const memory = store.recordCombat(
+      combat(2, [{ playerId: 2, hp: 90, armor: 5, level: 1 }, third], [attack(3, 2, 20), attack(2, 1, 10)])
+    );
+
+    expect(memory.opponents.get(2)!.spend).toEqual([{ turn: 1, armor: 15, upgrade: 0, troops: 10 }]);
+    expect(memory.opponents.get(3)!.spend).toEqual([{ turn: 1, armor: 0, upgrade: 0, troops: 20 }]);
+  });
+
+  test('charges an upgrade at the cost of the level it left', () => {
+    const store = createGameMemoryStore();
+    store.recordNegotiate(negotiate(1, [{ playerId: 2, hp: 100, armor: 0, level: 1 }]));
+    const memory = store.recordNegotiate(negotiate(2, [{ playerId: 2, hp: 100, armor: 0, level: 2 }]));
+
+    expect(memory.opponents.get(2)!.spend).toEqual([{ turn: 1, armor: 0, upgrade: upgradeCost(1), troops: 0 }]);
+  });
+
+  test('infers nothing across a turn it did not see', () => {
+    const store = createGameMemoryStore();
+    store.recordNegotiate(negotiate(1, [{ playerId: 2, hp: 100, armor: 0, level: 1 }]));
+    const memory = store.recordNegotiate(negotiate(3, [{ playerId: 2, hp: 100, armor: 30, level: 1 }]));
+
+    expect(memory.opponents.get(2)!.spend).toEqual([]);
+  });
+
+  test('records each turn once when both calls report it', () => {
+    const store = createGameMemoryStore();
+    const towers = [{ playerId: 2, hp: 100, armor: 0, level: 1 }];
+    store.recordNegotiate(negotiate(1, towers));
+    store.recordNegotiate(negotiate(2, [{ playerId: 2, hp: 100, armor: 10, level: 1 }]));
+    const memory = store.recordCombat(combat(2, [{ playerId: 2, hp: 100, armor: 10, level: 1 }]));
+
+    expect(memory.opponents.get(2)!.spend).toHaveLength(1);
+    expect(memory.opponents.get(2)!.snapshots).toHaveLength(2);
+  });
+});
+
+describe('broken alliances', () => {
+  const towers = [
+    { playerId: 2, hp: 100, armor: 0, level: 1 },
+    { playerId: 3, hp: 100, armor: 0, level: 1 }
+  ];
+
+  test('flags an attack on us on the turn an alliance with us was proposed', () => {
+    const store = createGameMemoryStore();
+    store.recordCombat(combat(2, towers, [], [{ playerId: 2, action: { allyId: 1 } }]));
+    const memory = store.recordNegotiate(negotiate(3, towers, [attack(2, 1, 12)]));
+
+    expect(memory.opponents.get(2)!.brokenAlliances).toEqual([{ proposedOnTurn: 2, brokenOnTurn: 2, troopCount: 12 }]);
+  });
+
+  test('flags an attack on us the turn after the proposal', () => {
+    const store = createGameMemoryStore();
+    store.recordCombat(combat(2, towers, [], [{ playerId: 2, action: { allyId: 1 } }]));
+    store.recordCombat(combat(3, towers));
+    const memory = store.recordNegotiate(negotiate(4, towers, [attack(2, 1, 8)]));
+
+    expect(memory.opponents.get(2)!.brokenAlliances).toEqual([{ proposedOnTurn: 2, brokenOnTurn: 3, troopCount: 8 }]);
+  });
+
+  test('ignores attacks long after the proposal, on others, or by players who never proposed', () => {
+    const store = createGameMemoryStore();
+    store.recordCombat(combat(2, towers, [], [{ playerId: 2, action: { allyId: 1 } }]));
+    store.recordNegotiate(negotiate(3, towers, [attack(2, 3, 10)]));
+    const memory = store.recordNegotiate(negotiate(5, towers, [attack(2, 1, 10), attack(3, 1, 10)]));
+
+    expect(memory.opponents.get(2)!.brokenAlliances).toEqual([]);
+    expect(memory.opponents.get(3)!.brokenAlliances).toEqual([]);
+    expect(memory.opponents.get(2)!.attacksOnUs).toHaveLength(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { createMetricsRegistry } from '../src/metrics';
+
+describe('createMetricsRegistry', () => {
+  test('renders counters, histograms and gauges in Prometheus text format', () => {
+    const registry = createMetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests.');
+    const duration = registry.histogram('duration_seconds', 'Duration.', [0.1, 1]);
+    registry.gauge('games', 'Games.', () => 3);
+
+    requests.inc({ route: '/combat' });
+    requests.inc({ route: '/combat' }, 2);
+    requests.inc({ route: 'say "hi"\n' });
+    duration.observe({ route: '/combat' }, 0.05);
+    duration.observe({ route: '/combat' }, 0.5);
+    duration.observe({ route: '/combat' }, 5);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP requests_total Requests.',
+        '# TYPE requests_total counter',
+        'requests_total{route="/combat"} 3',
+        'requests_total{route="say \\"hi\\"\\n"} 1',
+        '# HELP duration_seconds Duration.',
+        '# TYPE duration_seconds histogram',
+        'duration_seconds_bucket{route="/combat",le="0.1"} 1',
+        'duration_seconds_bucket{route="/combat",le="1"} 2',
+        'duration_seconds_bucket{route="/combat",le="+Inf"} 3',
+        'duration_seconds_sum{route="/combat"} 5.55',
+        'duration_seconds_count{route="/combat"} 3',
+        '# HELP games Games.',
+        '# TYPE games gauge',
+        'games 3',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('refuses to define a metric twice', () => {
+    const registry = createMetricsRegistry();
+    registry.counter('requests_total', 'Requests.');
+    expect(() => registry.counter('requests_total', 'Again.')).toThrow('already defined');
+  });
+});
@@ -0,0 +1,44 @@
+import { BUILTIN_DEFINITIONS } from '../src/strategies/builtin';
+import { parseStrategyDefinition } from '../src/strategies/pipeline';
+
+describe('parseStrategyDefinition', () => {
+  test('accepts every built-in definition', () => {
+    for (const definition of Object.values(BUILTIN_DEFINITIONS)) {
+      expect(parseStrategyDefinition(JSON.parse(JSON.stringify(definition)))).toEqual(definition);
+    }
+  });
+
+  test('lists every problem in a broken definition', () => {
+    const broken = {
+      name: 'Bad Name',
+      levelCap: 3,
+      threat: { diplomacyWeight: 1, earlyBuffer: 1, lateBuffer: 1 },
+      skipWhenIdle: true,
+      discardInvalidPlan: 'yes',
+      negotiation: { kind: 'none' },
+      combat: [{ step: 'upgrade' }, { step: 'teleport' }, { step: 'burst', order: 'random' }]
+    };
+    expect(() => parseStrategyDefinition(broken)).toThrow(
+      'Invalid strategy definition Bad Name: name: expected lowercase letters, digits and dashes; ' +
+        'threat.lateFromTurn: expected a number; discardInvalidPlan: expected a boolean; ' +
+        'combat[0].belowLevel: expected a number; combat[1].step: expected one of endgame, armor-top-up, armor-race, ' +
+        'armor-all, defend, upgrade, burst, pressure, attack-weakest-hp, all-in; ' +
+        'combat[2].order: expected one of level-then-cheapest, strongest'
+    );
+  });
+
+  test('checks the upgrade reserve of a defend step', () => {
+    const withDefend = (reserveForUpgrade: unknown) => ({
+      ...BUILTIN_DEFINITIONS['tempo-threat'],
+      combat: [{ step: 'defend', reserveForUpgrade }]
+    });
+
+    expect(() => parseStrategyDefinition(withDefend({ untilTurn: '20', belowLevel: 3 }))).toThrow(
+      'Invalid strategy definition tempo-threat: combat[0].reserveForUpgrade.untilTurn: expected a number; ' +
+        'combat[0].reserveForUpgrade.emergencyMargin: expected a number'
+    );
+    expect(() => parseStrategyDefinition(withDefend(20))).toThrow(
+      'Invalid strategy definition tempo-threat: combat[0].reserveForUpgrade: expected an object'
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { repairPlan, planContextFor } from '../src/actionPlan';
+import { STRATEGY_NAMES, getStrategy } from '../src/strategies';
+import type { CombatAction, CombatRequest } from '../src/types';
+import { upgradeCost } from '../src/types';
+import { combatFixtures } from './helpers/golden';
+import { collectCombatRequests } from './helpers/requests';
+
+function expectLegalPlan(actions: CombatAction[], request: CombatRequest): void {
+  const resources = Math.floor(request.playerTower.resources ?? 0);
+  const liveEnemyIds = request.enemyTowers.filter((enemy) => enemy.hp > 0).map((enemy) => enemy.playerId);
+  const targets = actions.flatMap((action) => (action.type === 'attack' ? [action.targetId] : []));
+  const cost = actions.reduce((sum, action) => {
+    if (action.type === 'armor') {
+      return sum + action.amount;
+    }
+    if (action.type === 'attack') {
+      return sum + action.troopCount;
+    }
+    return sum + upgradeCost(request.playerTower.level);
+  }, 0);
+
+  expect(actions.filter((action) => action.type === 'armor').length).toBeLessThanOrEqual(1);
+  expect(actions.filter((action) => action.type === 'upgrade').length).toBeLessThanOrEqual(1);
+  expect(new Set(targets).size).toBe(targets.length);
+  expect(targets.every((targetId) => liveEnemyIds.includes(targetId))).toBe(true);
+  expect(cost).toBeLessThanOrEqual(resources);
+  for (const action of actions) {
+    if (action.type === 'armor') {
+      expect(Number.isInteger(action.amount) && action.amount > 0).toBe(true);
+    }
+    if (action.type === 'attack') {
+      expect(Number.isInteger(action.troopCount) && action.troopCount > 0).toBe(true);
+    }
+    if (action.type === 'upgrade') {
+      expect(request.playerTower.level).toBeLessThan(6);
+    }
+  }
+}
+
+const requests = [...combatFixtures().map((fixture) => fixture.request), ...collectCombatRequests(3)];
+
+describe.each(STRATEGY_NAMES)('%s plans follow the engine rules', (name) => {
+  const strategy = getStrategy(name);
+
+  test(`on ${requests.length} fixture and simulated requests`, () => {
+    for (const request of requests) {
+      expectLegalPlan(strategy.combat(request), request);
+    }
+  });
+});
+
+describe('repairPlan', () => {
+  const request = combatFixtures().find((fixture) => fixture.name === 'combat/targeted-by-pact')!.request;
+
+  test('keeps a legal plan unchanged', () => {
+    const plan: CombatAction[] = [
+      { type: 'armor', amount: 20 },
+      { type: 'attack', targetId: 2, troopCount: 35 }
+    ];
+    expect(repairPlan(plan, planContextFor(request))).toEqual({ actions: plan, changes: [] });
+  });
+
+  test('drops duplicates and an unaffordable upgrade, then trims troops to the budget', () => {
+    const plan: CombatAction[] = [
+      { type: 'upgrade' },
+      { type: 'attack', targetId: 2, troopCount: 60 },
+      { type: 'attack', targetId: 2, troopCount: 10 },
+      { type: 'armor', amount: 50 },
+      { type: 'armor', amount: 5 }
+    ];
+    const { actions, changes } = repairPlan(plan, planContextFor(request));
+
+    expect(actions).toEqual([
+      { type: 'attack', targetId: 2, troopCount: 45 },
+      { type: 'armor', amount: 50 }
+    ]);
+    expect(changes).toHaveLength(4);
+    expectLegalPlan(actions, request);
+  });
+
+  test('records fractional amounts it rounds down', () => {
+    const plan = [
+      { type: 'armor', amount: 20.5 },
+      { type: 'attack', targetId: 2, troopCount: 35.9 }
+    ];
+
+    expect(repairPlan(plan, planContextFor(request))).toEqual({
+      actions: [
+        { type: 'armor', amount: 20 },
+        { type: 'attack', targetId: 2, troopCount: 35 }
+      ],
+      changes: ['rounded armor 20.5 down to 20', 'rounded attack on 2 from 35.9 down to 35 troops']
+    });
+  });
+
+  test('always produces a legal plan from garbage', () => {
+    const garbage = [
+      { type: 'attack', targetId: 3, troopCount: 10 },
+      { type: 'attack', targetId: 99, troopCount: 10 },
+      { type: 'armor', amount: -4 },
+      { type: 'teleport' },
+      null,
+      { type: 'attack', targetId: 4, troopCount: 12.7 }
+    ];
+    const { actions } = repairPlan(garbage, planContextFor(request));
+
+    expect(actions).toEqual([{ type: 'attack', targetId: 4, troopCount: 12 }]);
+    expectLegalPlan(actions, request);
+  });
+});
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { detectProtocol } from '../src/protocol';
+import { protocolV1 } from '../src/protocol/v1';
+import { protocolV2 } from '../src/protocol/v2';
+import { validateCombatRequest, validateNegotiateRequest } from '../src/validation';
+import { combatFixtures, negotiateFixtures } from './helpers/golden';
+
+const tower = { playerId: 1, hp: 100, armor: 0, level: 1, resources: 20 };
+
+describe('detectProtocol', () => {
+  test.each([
+    [{}, {}, '1.0', '1.0', undefined],
+    [{ 'x-protocol-version': '1.0' }, {}, '1.0', '1.0', undefined],
+    [{ 'x-protocol-version': '1.0' }, { protocolVersion: '1.4' }, '1.4', '1.0', undefined],
+    [{}, { version: 1 }, '1', '1.0', undefined],
+    [{ 'x-protocol-version': '2.0' }, {}, '2.0', '2.0', undefined],
+    [{}, { protocolVersion: '2.1' }, '2.1', '2.0', undefined],
+    [{}, { protocolVersion: '3.0' }, '3.0', '1.0', 'unsupported protocol version 3.0, answering as 1.0'],
+    [{}, { protocolVersion: '0.9' }, '0.9', '1.0', 'unsupported protocol version 0.9, answering as 1.0'],
+    [{}, { protocolVersion: 'beta' }, 'beta', '1.0', 'unreadable protocol version "beta", answering as 1.0']
+  ])('headers %j and body %j ask for %s', (headers, body, requested, version, note) => {
+    const detected = detectProtocol(headers, body);
+    expect(detected.requested).toBe(requested);
+    expect(detected.adapter.version).toBe(version);
+    expect(detected.note).toBe(note);
+  });
+});
+
+describe('protocolV1', () => {
+  test('reads a newer negotiate payload into the 1.0 shape', () => {
+    const { body, notes } = protocolV1.normalizeNegotiate({
+      protocolVersion: '1.2',
+      gameId: 1,
+      turn: 2,
+      weather: 'rain',
+      playerTower: { ...tower, shield: 3 },
+      enemyTowers: [{ ...tower, playerId: 2 }],
+      combatActions: [
+        { playerId: 2, action: { type: 'attack', targetId: 1, troopCount: 5 } },
+        { playerId: 3, action: { type: 'spy', targetId: 1 } }
+      ]
+    });
+    expect(body).toEqual({
+      gameId: 1,
+      turn: 2,
+      playerTower: tower,
+      enemyTowers: [{ ...tower, playerId: 2 }],
+      combatActions: [{ playerId: 2, action: { targetId: 1, troopCount: 5 } }]
+    });
+    expect(notes).toEqual([
+      'ignored unknown field $.weather',
+      'ignored unknown field playerTower.shield',
+      'dropped combatActions[]: unsupported action type spy'
+    ]);
+    expect(validateNegotiateRequest(body).ok).toBe(true);
+  });
+
+  test('leaves malformed combat payloads for validation to report', () => {
+    const { body } = protocolV1.normalizeCombat({ gameId: 1, turn: 1, playerTower: tower, enemyTowers: 'none' });
+    const validation = validateCombatRequest(body);
+    expect(validation.ok).toBe(false);
+    expect(!validation.ok && validation.issues.map((issue) => issue.path)).toEqual(['enemyTowers', 'diplomacy', 'previousAttacks']);
+  });
+
+  test('answers with 1.0 fields only', () => {
+    expect(protocolV1.serializeNegotiate([{ allyId: 2 }, { allyId: 3, attackTargetId: 4 }])).toEqual([
+      { allyId: 2 },
+      { allyId: 3, attackTargetId: 4 }
+    ]);
+    const actions = [
+      { type: 'armor', amount: 5, reason: 'x' },
+      { type: 'attack', targetId: 2, troopCount: 10 },
+      { type: 'upgrade' }
+    ] as Parameters<typeof protocolV1.serializeCombat>[0];
+    expect(protocolV1.serializeCombat(actions)).toEqual([
+      { type: 'armor', amount: 5 },
+      { type: 'attack', targetId: 2, troopCount: 10 },
+      { type: 'upgrade' }
+    ]);
+  });
+});
+
+describe('protocolV2', () => {
+  const fixture = (name: string): unknown =>
+    JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'protocol', '2.0', `${name}.json`), 'utf8'));
+
+  test('reads 2.0 requests into the same requests as their 1.0 twins', () => {
+    const negotiate = protocolV2.normalizeNegotiate(fixture('negotiate-mid-game'));
+    expect(negotiate).toEqual({ body: negotiateFixtures().find((f) => f.name === 'negotiate/mid-game')!.request, notes: [] });
+    const combat = protocolV2.normalizeCombat(fixture('combat-mid-game'));
+    expect(combat).toEqual({ body: combatFixtures().find((f) => f.name === 'combat/mid-game')!.request, notes: [] });
+  });
+
+  test('answers attacks with troops, and everything else as 1.0', () => {
+    const actions = [
+      { type: 'armor', amount: 5 },
+      { type: 'attack', targetId: 2, troopCount: 10 },
+      { type: 'upgrade' }
+    ] as Parameters<typeof protocolV2.serializeCombat>[0];
+    expect(protocolV2.serializeCombat(actions)).toEqual([
+      { type: 'armor', amount: 5 },
+      { type: 'attack', targetId: 2, troops: 10 },
+      { type: 'upgrade' }
+    ]);
+    expect(protocolV2.serializeNegotiate([{ allyId: 3, attackTargetId: 4 }])).toEqual([{ allyId: 3, attackTargetId: 4 }]);
+  });
+});
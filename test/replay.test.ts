@@ -0,0 +1,34 @@
+import { planContextFor, repairPlan } from '../src/actionPlan';
+import { createGameMemoryStore } from '../src/memory';
+import type { ReplayEntry } from '../src/replay/recorder';
+import { replayGame } from '../src/replay/replayer';
+import { getStrategy } from '../src/strategies';
+import { gameFixtures } from './helpers/golden';
+
+/** Plays a game fixture the way the bot router does and records every call as the recorder would. */
+function record(name: string, strategyName: 'armor-control'): ReplayEntry[] {
+  const { request: game } = gameFixtures().find((fixture) => fixture.name === name)!;
+  const strategy = getStrategy(strategyName);
+  const store = createGameMemoryStore();
+  const entries: ReplayEntry[] = [];
+  const at = new Date(0).toISOString();
+  for (const { negotiate, combat } of game.turns) {
+    const proposals = strategy.negotiate(negotiate, { memory: store.recordNegotiate(negotiate) });
+    store.recordOurProposals(negotiate, proposals);
+    entries.push({ phase: 'negotiate', request: negotiate, gameId: negotiate.gameId, turn: negotiate.turn, strategy: strategyName, at, response: proposals });
+    const actions = repairPlan(strategy.combat(combat, { memory: store.recordCombat(combat) }), planContextFor(combat)).actions;
+    entries.push({ phase: 'combat', request: combat, gameId: combat.gameId, turn: combat.turn, strategy: strategyName, at, response: actions });
+  }
+  return entries;
+}
+
+describe('replayGame', () => {
+  test('replays a focus-fire game through its own strategy without differences', () => {
+    const entries = record('games/focus-fire-accepted', 'armor-control');
+    const committed = entries.find((entry) => entry.phase === 'combat' && entry.turn === 5)!;
+    expect(committed.response).toContainEqual({ type: 'attack', targetId: 2, troopCount: 30 });
+
+    const turns = replayGame(entries, getStrategy('armor-control'));
+    expect(turns.filter((turn) => turn.differs)).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { buildReputations, chooseLeadPlotter, createGameMemoryStore, rankTrustedAllies } from '../src/memory';
+import type { Reputation } from '../src/memory';
+import type { CombatActionAttack, CombatRequest, DiplomacyEntry, Tower } from '../src/types';
+
+const us: Tower = { playerId: 1, hp: 100, armor: 0, level: 1, resources: 20 };
+const towers: Tower[] = [2, 3, 4].map((playerId) => ({ playerId, hp: 100, armor: 0, level: 1 }));
+
+const combat = (
+  turn: number,
+  diplomacy: DiplomacyEntry[] = [],
+  previousAttacks: CombatActionAttack[] = []
+): CombatRequest => ({
+  gameId: 1,
+  turn,
+  playerTower: us,
+  enemyTowers: towers,
+  diplomacy,
+  previousAttacks
+});
+
+const reputation = (playerId: number, overrides: Partial<Reputation> = {}): Reputation => ({
+  playerId,
+  kept: 0,
+  broken: 0,
+  trust: 0.5,
+  betrayer: false,
+  plotsAgainstUs: 0,
+  ...overrides
+});
+
+describe('buildReputations', () => {
+  test('judges alliances offered to us once the turn after them has resolved', () => {
+    const store = createGameMemoryStore();
+    store.recordCombat(combat(2, [{ playerId: 2, action: { allyId: 1 } }, { playerId: 3, action: { allyId: 1 } }]));
+    store.recordCombat(combat(3, [], [{ playerId: 2, action: { targetId: 1, troopCount: 10 } }]));
+    const memory = store.recordCombat(combat(4, [{ playerId: 4, action: { allyId: 1 } }]));
+
+    const reputations = buildReputations(memory);
+    expect(reputations.get(2)).toMatchObject({ kept: 0, broken: 1, trust: 1 / 3, betrayer: true });
+    expect(reputations.get(3)).toMatchObject({ kept: 1, broken: 0, trust: 2 / 3, betrayer: false });
+    // Proposed this turn, so it cannot have been kept or broken yet.
+    expect(reputations.get(4)).toMatchObject({ kept: 0, broken: 0, trust: 0.5, betrayer: false });
+  });
+
+  test('counts recent proposals against us for both the proposer and the invited ally', () => {
+    const store = createGameMemoryStore();
+    store.recordCombat(combat(1, [{ playerId: 4, action: { allyId: 2, attackTargetId: 1 } }]));
+    store.recordCombat(combat(3, [{ playerId: 2, action: { allyId: 3, attackTargetId: 1 } }]));
+    const memory = store.recordCombat(
+      combat(4, [
+        { playerId: 2, action: { allyId: 3, attackTargetId: 1 } },
+        { playerId: 3, action: { allyId: 4, attackTargetId: 2 } }
+      ])
+    );
+
+    const plots = [...buildReputations(memory).values()].map((entry) => [entry.playerId, entry.plotsAgainstUs]);
+    // Turn 1 is outside the window, and a plot against player 2 is not one against us.
+    expect(plots).toEqual([
+      [2, 2],
+      [3, 2],
+      [4, 0]
+    ]);
+  });
+});
+
+describe('rankTrustedAllies', () => {
+  test('drops betrayers and orders the rest by trust, keeping the given order on ties', () => {
+    const reputations = new Map([
+      [2, reputation(2, { broken: 1, trust: 1 / 3, betrayer: true })],
+      [3, reputation(3, { kept: 1, trust: 2 / 3 })]
+    ]);
+
+    expect(rankTrustedAllies(towers, reputations).map((tower) => tower.playerId)).toEqual([3, 4]);
+    expect(rankTrustedAllies([...towers].reverse(), new Map()).map((tower) => tower.playerId)).toEqual([4, 3, 2]);
+  });
+});
+
+describe('chooseLeadPlotter', () => {
+  test('picks the most active plotter, breaking ties by player id', () => {
+    const reputations = new Map([
+      [2, reputation(2, { plotsAgainstUs: 1 })],
+      [3, reputation(3, { plotsAgainstUs: 2 })],
+      [4, reputation(4, { plotsAgainstUs: 2 })]
+    ]);
+
+    expect(chooseLeadPlotter(towers, reputations)?.playerId).toBe(3);
+    expect(chooseLeadPlotter(towers, new Map([[2, reputation(2)]]))).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { createGameMemoryStore, estimateResources, expectedKillCost } from '../src/memory';
+import type { NegotiateRequest, Tower } from '../src/types';
+import { resourcesPerTurn } from '../src/types';
+
+const us: Tower = { playerId: 1, hp: 100, armor: 0, level: 1, resources: 20 };
+
+const negotiate = (turn: number, enemy: Partial<Tower> = {}): NegotiateRequest => ({
+  gameId: 1,
+  turn,
+  playerTower: us,
+  enemyTowers: [{ playerId: 2, hp: 100, armor: 0, level: 1, ...enemy }],
+  combatActions: []
+});
+
+/** Feeds one /negotiate per listed turn, with the enemy tower seen on that turn. */
+function observe(turns: [number, Partial<Tower>][]) {
+  const store = createGameMemoryStore();
+  return turns.map(([turn, enemy]) => store.recordNegotiate(negotiate(turn, enemy))).pop()!;
+}
+
+describe('estimateResources', () => {
+  test('banks income every turn and subtracts inferred spend', () => {
+    const memory = observe([
+      [1, {}],
+      [2, { armor: 5 }],
+      [3, { armor: 5 }]
+    ]);
+
+    expect(estimateResources(memory, 2)).toEqual({
+      playerId: 2,
+      turn: 3,
+      income: 20,
+      available: 55,
+      nextTurnAvailable: 75,
+      // Spent 5 then 0 on armor: 2.5 a turn, rounded.
+      likelyArmor: 3,
+      likelyTroops: 0,
+      exact: true
+    });
+  });
+
+  test('pays income for turns between snapshots that were never seen', () => {
+    const memory = observe([
+      [1, {}],
+      [4, { level: 2 }]
+    ]);
+
+    expect(estimateResources(memory, 2)).toMatchObject({
+      turn: 4,
+      income: resourcesPerTurn(2),
+      // Turns 1 to 3 at level 1, then turn 4 at level 2; nothing is known about the spend in between.
+      available: 3 * resourcesPerTurn(1) + resourcesPerTurn(2),
+      exact: false
+    });
+  });
+
+  test('is a lower bound when we joined after turn 1', () => {
+    expect(estimateResources(observe([[3, {}]]), 2)).toMatchObject({ available: 20, exact: false });
+  });
+
+  test('knows nothing about players it never saw', () => {
+    expect(estimateResources(observe([[1, {}]]), 9)).toBeUndefined();
+  });
+});
+
+describe('expectedKillCost', () => {
+  test('adds the armor a tower usually buys to what it has now', () => {
+    const memory = observe([
+      [1, {}],
+      [2, { armor: 10 }]
+    ]);
+    const estimates = new Map([[2, estimateResources(memory, 2)!]]);
+
+    expect(expectedKillCost({ playerId: 2, hp: 100, armor: 10 }, estimates)).toBe(120);
+    expect(expectedKillCost({ playerId: 2, hp: 100, armor: 10 })).toBe(110);
+  });
+});
@@ -0,0 +1,40 @@
+import { getStrategy } from '../src/strategies';
+import { createDecisionRecorder } from '../src/trace';
+import type { CombatRequest } from '../src/types';
+import { combatFixtures } from './helpers/golden';
+
+const search = getStrategy('search');
+const midGame = combatFixtures().find((fixture) => fixture.name === 'combat/mid-game')!.request;
+
+describe('search strategy', () => {
+  test('scores a fixed set of candidates, whatever the clock says', () => {
+    const trace = createDecisionRecorder();
+    const first = search.combat(midGame, { trace, deadline: Date.now() + 60 * 1000 });
+    const rule = trace.rules().find((entry) => entry.name === 'search')!;
+    expect(rule.detail).toMatchObject({ cutOff: false });
+    expect(rule.detail?.evaluated).toBe(rule.detail?.generated);
+    expect(search.combat(midGame)).toEqual(first);
+  });
+
+  test('records an emergency cutoff when the turn deadline has passed', () => {
+    const trace = createDecisionRecorder();
+    search.combat(midGame, { trace, deadline: Date.now() - 1 });
+    expect(trace.rules().find((entry) => entry.name === 'search')?.detail).toMatchObject({ cutOff: true, evaluated: 1 });
+  });
+
+  test('keeps upgrade plans among the scored candidates when many enemies fill the cap', () => {
+    const crowded: CombatRequest = {
+      gameId: 1,
+      turn: 6,
+      playerTower: { playerId: 1, hp: 100, armor: 0, level: 1, resources: 250 },
+      enemyTowers: [2, 3, 4, 5, 6].map((playerId) => ({ playerId, hp: 100, armor: 20, level: 1 })),
+      diplomacy: [],
+      previousAttacks: []
+    };
+    expect(search.combat(crowded)).toEqual([
+      { type: 'armor', amount: 150 },
+      { type: 'attack', targetId: 2, troopCount: 50 },
+      { type: 'upgrade' }
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import express from 'express';
+import type { Server } from 'http';
+import { createServer } from 'net';
+import type { AddressInfo } from 'net';
+import { createBotInstance, createBotRouter } from '../src/bot';
+import { createBotMetrics } from '../src/botMetrics';
+import { launchBotApp, runSelfPlay } from '../src/selfplay';
+import type { SelfPlaySeat } from '../src/selfplay';
+
+let server: Server;
+let baseUrl: string;
+
+/** Real bot routers, as the app mounts them, plus one bot that answers combat with an unknown action. */
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  const metrics = createBotMetrics(() => 0);
+  const options = { version: '1.0', metrics, turnBudgetMs: 1000 };
+  for (const [id, strategy] of [['a', 'armor-control'], ['b', 'tempo-threat'], ['c', 'hybrid-lite']] as const) {
+    app.use(`/bots/${id}`, createBotRouter(createBotInstance({ id, name: id, strategy }), options));
+  }
+  app.post('/broken/negotiate', (_req, res) => {
+    res.json([]);
+  });
+  app.post('/broken/combat', (_req, res) => {
+    res.json([{ type: 'spy', targetId: 1 }]);
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const seat = (name: string, route: string): SelfPlaySeat => ({ name, url: `${baseUrl}${route}` });
+
+describe('runSelfPlay', () => {
+  test('plays full games against the bot routers without protocol errors', async () => {
+    const report = await runSelfPlay({
+      seats: [seat('a', '/bots/a'), seat('b', '/bots/b'), seat('c', '/bots/c')],
+      games: 2,
+      config: { maxTurns: 25 }
+    });
+
+    expect(report.errors).toEqual([]);
+    expect(report.games.map((game) => game.gameId)).toEqual([1, 2]);
+    const [first] = report.games;
+    expect(first.placements.some((placement) => placement.place === 1)).toBe(true);
+    expect(first.log.some((turn) => turn.attacks.length > 0)).toBe(true);
+    expect(report.standings.map((standing) => standing.games)).toEqual([2, 2, 2]);
+  }, 30000);
+
+  test('flags invalid answers and plays them as empty', async () => {
+    const report = await runSelfPlay({
+      seats: [seat('a', '/bots/a'), seat('broken', '/broken')],
+      games: 1,
+      config: { maxTurns: 3 }
+    });
+
+    expect(report.errors.length).toBeGreaterThan(0);
+    expect(report.errors.every((error) => error.name === 'broken' && error.kind === 'invalid-response')).toBe(true);
+    expect(report.errors[0]).toMatchObject({ turn: 1, phase: 'combat', message: expect.stringContaining('$[0].type') });
+    expect(report.standings.find((standing) => standing.name === 'a')?.errors).toBe(0);
+  }, 30000);
+
+  test('refuses seats sharing a bot', async () => {
+    await expect(runSelfPlay({ seats: [seat('a', '/bots/a'), seat('again', '/bots/a')], games: 1 })).rejects.toThrow(
+      'Every seat needs its own bot URL'
+    );
+  });
+});
+
+/** A port nothing listens on right now, for the app the launcher starts. */
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+describe('launchBotApp', () => {
+  test('plays a short game against the app as deployed, and labels unknown bots in metrics', async () => {
+    const bots = [
+      { id: 'a', name: 'a', strategy: 'armor-control' as const },
+      { id: 'b', name: 'b', strategy: 'tempo-threat' as const }
+    ];
+    const app = await launchBotApp({ bots, port: await freePort() });
+    try {
+      const report = await runSelfPlay({
+        seats: bots.map((bot) => ({ name: bot.name, url: app.urls.get(bot.id)! })),
+        games: 1,
+        config: { maxTurns: 8 }
+      });
+      expect(report.errors).toEqual([]);
+      expect(report.games[0].turnsPlayed).toBeGreaterThan(0);
+
+      const unparseable = await fetch(`${app.baseUrl}/bots/ghost/combat`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{"gameId": '
+      });
+      expect(await unparseable.json()).toEqual([]);
+      const metrics = await (await fetch(`${app.baseUrl}/metrics`)).text();
+      expect(metrics).toContain('bot="unknown"');
+      expect(metrics).not.toContain('ghost');
+    } finally {
+      await app.stop();
+    }
+  }, 120000);
+});
@@ -0,0 +1,35 @@
+import { DEFAULT_SIMULATOR_CONFIG, createGame, resolveCombat, runTournament, startTurn } from '../src/simulator';
+
+describe('resolveCombat', () => {
+  const lateTurn = () => {
+    const state = startTurn(createGame(1, [1, 2], DEFAULT_SIMULATOR_CONFIG));
+    return { ...state, turn: 50 };
+  };
+
+  test('deals no damage beyond attacks by default, as the real engine', () => {
+    const { state } = resolveCombat(lateTurn(), [], DEFAULT_SIMULATOR_CONFIG);
+    expect(state.towers.map((tower) => tower.hp)).toEqual([100, 100]);
+  });
+
+  test('applies fatigue only when a config opts in', () => {
+    const config = { ...DEFAULT_SIMULATOR_CONFIG, fatigue: { startTurn: 40, damagePerTurn: 10 } };
+    const { state } = resolveCombat(lateTurn(), [], config);
+    // Turn 50 is the eleventh fatigue turn: 11 * 10 hp.
+    expect(state.towers.map((tower) => tower.hp)).toEqual([-10, -10]);
+  });
+});
+
+describe('runTournament', () => {
+  test('ranks by average place, then win rate', () => {
+    const { standings } = runTournament({
+      strategies: ['legacy', 'capped-buff', 'hybrid-lite'],
+      games: 6,
+      playersPerGame: 3,
+      seed: 1,
+      config: { maxTurns: 20 }
+    });
+    const keys = standings.map((standing) => [standing.averagePlace, -standing.winRate]);
+    const sorted = [...keys].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    expect(keys).toEqual(sorted);
+  });
+});
@@ -0,0 +1,37 @@
+import { createGameMemoryStore } from '../src/memory';
+import { STRATEGY_NAMES, getStrategy } from '../src/strategies';
+import { UPDATE_GOLDEN, combatFixtures, gameFixtures, negotiateFixtures, readGolden, writeGolden } from './helpers/golden';
+
+describe.each(STRATEGY_NAMES)('%s golden responses', (name) => {
+  const strategy = getStrategy(name);
+  const actual: Record<string, unknown> = {};
+  for (const { name: fixture, request } of negotiateFixtures()) {
+    actual[fixture] = strategy.negotiate(request);
+  }
+  for (const { name: fixture, request } of combatFixtures()) {
+    actual[fixture] = strategy.combat(request);
+  }
+  // Game fixtures are played call by call with memory, as the bot router does.
+  for (const { name: fixture, request: game } of gameFixtures()) {
+    const store = createGameMemoryStore();
+    for (const turn of game.turns) {
+      const proposals = strategy.negotiate(turn.negotiate, { memory: store.recordNegotiate(turn.negotiate) });
+      store.recordOurProposals(turn.negotiate, proposals);
+      actual[`${fixture}/turn-${turn.negotiate.turn}/negotiate`] = proposals;
+      actual[`${fixture}/turn-${turn.combat.turn}/combat`] = strategy.combat(turn.combat, { memory: store.recordCombat(turn.combat) });
+    }
+  }
+
+  if (UPDATE_GOLDEN) {
+    test('regenerates expected responses', () => {
+      writeGolden(name, actual);
+    });
+    return;
+  }
+
+  const expected = readGolden(name);
+  test.each(Object.keys(actual))('%s', (fixture) => {
+    expect(expected).toHaveProperty([fixture]);
+    expect(actual[fixture]).toEqual(expected[fixture]);
+  });
+});
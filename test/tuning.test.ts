@@ -0,0 +1,85 @@
+import { createRng } from '../src/random';
+import { getStrategy, registerStrategyDefinition } from '../src/strategies';
+import {
+  TUNABLE_STRATEGIES,
+  createTunedStrategy,
+  defaultParams,
+  definitionWithParams,
+  sampleParams,
+  tuneStrategy,
+  wilsonInterval
+} from '../src/tuning';
+import { combatFixtures } from './helpers/golden';
+
+describe('wilsonInterval', () => {
+  test('brackets the observed rate', () => {
+    const { low, high } = wilsonInterval(30, 100);
+    expect(low).toBeCloseTo(0.2189, 3);
+    expect(high).toBeCloseTo(0.3959, 3);
+  });
+
+  test('stays within [0, 1] at the extremes', () => {
+    expect(wilsonInterval(0, 20).low).toBe(0);
+    expect(wilsonInterval(20, 20).high).toBeCloseTo(1, 12);
+    expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 1 });
+  });
+});
+
+describe.each(TUNABLE_STRATEGIES.map((tunable) => [tunable.name, tunable] as const))('%s parameter space', (_, tunable) => {
+  test('samples stay within their ranges', () => {
+    const rng = createRng(3);
+    for (let i = 0; i < 50; i++) {
+      const params = sampleParams(tunable, rng);
+      for (const spec of tunable.space) {
+        expect(params[spec.name]).toBeGreaterThanOrEqual(spec.min);
+        expect(params[spec.name]).toBeLessThanOrEqual(spec.max);
+        if (spec.integer) {
+          expect(Number.isInteger(params[spec.name])).toBe(true);
+        }
+      }
+    }
+  });
+
+  test('reads its defaults from the built-in definition, which they reproduce', () => {
+    const defaults = defaultParams(tunable);
+    expect(Object.values(defaults).every(Number.isFinite)).toBe(true);
+    const tuned = createTunedStrategy(tunable, defaults);
+    for (const { request } of combatFixtures()) {
+      expect(tuned.combat(request)).toEqual(getStrategy(tunable.name).combat(request));
+    }
+  });
+});
+
+describe('definitionWithParams', () => {
+  test('writes a parameter set into every path and deploys as a config: strategy', () => {
+    const tunable = TUNABLE_STRATEGIES.find((entry) => entry.name === 'tempo-threat')!;
+    const params = { ...defaultParams(tunable), earlyUpgradeTurnLimit: 14, lateFromTurn: 25 };
+    const definition = definitionWithParams(tunable, params, 'tempo-threat-tuned');
+
+    expect(definition.name).toBe('tempo-threat-tuned');
+    expect(definition.threat.lateFromTurn).toBe(25);
+    expect(definition.combat.filter((step) => step.step === 'upgrade').map((step) => step.untilTurn)).toEqual([14, 14]);
+    expect(registerStrategyDefinition(definition)).toBe('config:tempo-threat-tuned');
+  });
+});
+
+describe('tuneStrategy', () => {
+  test('is reproducible for a seed and always reports the defaults as baseline', () => {
+    const tunable = TUNABLE_STRATEGIES[0];
+    const options = {
+      samples: 3,
+      games: 4,
+      confirmGames: 4,
+      top: 2,
+      playersPerGame: 3,
+      seed: 11,
+      opponents: [tunable.name, 'legacy' as const]
+    };
+    const report = tuneStrategy(tunable, options);
+
+    expect(tuneStrategy(tunable, options)).toEqual(report);
+    expect(report.baseline.params).toEqual(defaultParams(tunable));
+    expect(report.best).toHaveLength(2);
+    expect(report.best[0].winRate).toBeGreaterThanOrEqual(report.best[1].winRate);
+  });
+});